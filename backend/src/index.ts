@@ -1,10 +1,47 @@
 import "dotenv/config";
 import { Hono } from "hono";
 import { WebSocketServer, WebSocket } from "ws";
-import { createServer } from "http";
+import { createServer, type IncomingMessage } from "http";
 import { prisma } from "./lib/prisma";
-import { signalingHandler, cleanupRoomConnection } from "./ws/signaling";
+import { verifyJoinToken, type JoinTokenClaims } from "./lib/join-token";
+import { getIceConfig } from "./lib/ice-servers";
+import {
+  signalingHandler,
+  suspendRoomConnection,
+  setRoomRegistry,
+  setAttendanceRecorder,
+  removeLostParticipant,
+  handOverSession,
+  closeStaleAttendance,
+} from "./ws/signaling";
+import type { WSContext } from "./ws/connection";
+import { createRedisRoomRegistry } from "./ws/redis-room-registry";
+import { createAttendanceRecorder } from "./ws/attendance";
+import { startHeartbeat } from "./ws/heartbeat";
+import { createRateLimiter } from "./ws/rate-limit";
+import { increment, renderMetrics } from "./ws/metrics";
+import { CloseCode } from "@shared/protocol";
 import { cors } from "hono/cors";
+import { Redis } from "ioredis";
+
+// Share rooms across backend instances when Redis is configured
+if (process.env.REDIS_URL) {
+  setRoomRegistry(
+    createRedisRoomRegistry(
+      new Redis(process.env.REDIS_URL),
+      new Redis(process.env.REDIS_URL),
+      {
+        onMemberLost: removeLostParticipant,
+        onHandover: handOverSession,
+      }
+    )
+  );
+  console.log("Using Redis room registry");
+}
+
+setAttendanceRecorder(createAttendanceRecorder(prisma));
+// Before accepting connections, so no stay that starts now is closed
+await closeStaleAttendance();
 
 const app = new Hono();
 
@@ -16,12 +53,6 @@ app.use(
   })
 );
 
-// Store participant IDs per WebSocket connection
-const wsToParticipant = new WeakMap<
-  WebSocket,
-  { roomId: string; participantId: string }
->();
-
 // REST routes
 app.post("/api/rooms/validate", async (c) => {
   const { roomId } = await c.req.json();
@@ -35,12 +66,58 @@ app.post("/api/rooms/validate", async (c) => {
     return c.json({ valid: false }, 404);
   }
 
-  return c.json({ valid: true, room });
+  // Never expose the passcode hash, only whether one is needed
+  const { passcodeHash, ...publicRoom } = room;
+  return c.json({
+    valid: true,
+    room: publicRoom,
+    passcodeRequired: passcodeHash !== null,
+  });
+});
+
+// STUN/TURN servers for a participant's peer connections. TURN credentials
+// expire, so clients fetch this again before `expiresAt`.
+app.get("/api/rooms/:roomId/ice-servers", async (c) => {
+  const roomId = c.req.param("roomId");
+  const token = c.req.header("authorization")?.replace(/^Bearer /, "") ?? null;
+  const result = verifyJoinToken(token, roomId);
+  if (result.error) {
+    return c.json({ error: `Join token ${result.error}` }, 401);
+  }
+
+  const room = await prisma.room.findUnique({
+    where: { roomId },
+    select: { relayOnly: true },
+  });
+  if (!room) {
+    return c.json({ error: "Room not found" }, 404);
+  }
+
+  const ice = getIceConfig(result.claims.participantId, room.relayOnly);
+  if (ice.error) {
+    return c.json({ error: ice.error }, 503);
+  }
+
+  // Credentials are per participant and must not be shared by caches
+  c.header("Cache-Control", "no-store");
+  return c.json(ice.config);
 });
 
 // Health check
 app.get("/health", (c) => c.json({ status: "ok" }));
 
+// Signaling counters for operators, guarded by METRICS_TOKEN when set
+app.get("/metrics", (c) => {
+  const token = process.env.METRICS_TOKEN;
+  if (token && c.req.header("authorization") !== `Bearer ${token}`) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+
+  return c.text(
+    renderMetrics({ signaling_open_connections: wss.clients.size })
+  );
+});
+
 const port = Number(process.env.PORT || 3001);
 
 // Create HTTP server with Hono handler
@@ -81,88 +158,126 @@ const server = createServer(async (req, res) => {
   res.end(responseBody);
 });
 
-// Setup WebSocket server (noServer: true to handle upgrades manually)
-const wss = new WebSocketServer({ noServer: true });
+// Setup WebSocket server (noServer: true to handle upgrades manually).
+// Larger messages close the socket with 1009 before they are buffered.
+const wss = new WebSocketServer({
+  noServer: true,
+  maxPayload: Number(process.env.MAX_MESSAGE_BYTES || 64 * 1024),
+});
+
+const heartbeat = startHeartbeat(
+  wss,
+  Number(process.env.HEARTBEAT_INTERVAL_MS || 30000)
+);
 
-// Handle WebSocket upgrade manually to filter by path
+function getRoomIdFromUrl(req: IncomingMessage): string | null {
+  const url = new URL(req.url || "", `http://${req.headers.host}`);
+  const roomIdMatch = url.pathname.match(/\/ws\/([^/]+)/);
+  return roomIdMatch ? roomIdMatch[1] : null;
+}
+
+// Handle WebSocket upgrade manually to filter by path and verify the
+// join token before the socket is accepted
 server.on("upgrade", (request, socket, head) => {
   if (!request.url?.startsWith("/ws/")) {
     socket.destroy();
     return;
   }
 
+  const roomId = getRoomIdFromUrl(request);
+  const url = new URL(request.url, `http://${request.headers.host}`);
+  const result = roomId
+    ? verifyJoinToken(url.searchParams.get("token"), roomId)
+    : null;
+
   wss.handleUpgrade(request, socket, head, (ws) => {
-    wss.emit("connection", ws, request);
+    // Browsers cannot read HTTP status codes from a failed upgrade, so
+    // token failures are reported through close codes instead
+    if (result?.error) {
+      console.warn(`[WS] Rejected ${result.error} join token for ${roomId}`);
+      ws.close(
+        result.error === "expired"
+          ? CloseCode.JOIN_TOKEN_EXPIRED
+          : CloseCode.JOIN_TOKEN_INVALID,
+        `Join token ${result.error}`
+      );
+      return;
+    }
+    wss.emit("connection", ws, request, result?.claims);
   });
 });
 
-wss.on("connection", (ws, req) => {
-  const url = new URL(req.url || "", `http://${req.headers.host}`);
-  const roomIdMatch = url.pathname.match(/\/ws\/([^/]+)/);
-  const roomId = roomIdMatch ? roomIdMatch[1] : null;
+wss.on(
+  "connection",
+  (ws: WebSocket, req: IncomingMessage, claims?: JoinTokenClaims) => {
+    const roomId = getRoomIdFromUrl(req);
 
-  if (!roomId) {
-    ws.close(1008, "Room ID required");
-    return;
-  }
+    if (!roomId || !claims) {
+      ws.close(1008, "Room ID required");
+      return;
+    }
 
-  let participantId: string | null = null;
+    // One context per socket, bound to the identity in the join token
+    const context: WSContext = {
+      send: (data: string) => ws.send(data),
+      close: (code?: number, reason?: string) => ws.close(code, reason),
+      get readyState() {
+        return ws.readyState;
+      },
+      participantId: claims.participantId,
+      userId: claims.userId,
+      guestId: claims.guestId,
+      name: claims.name,
+      image: claims.image,
+      role: claims.role,
+      capabilities: [],
+      rateLimiter: createRateLimiter(),
+    };
 
-  ws.on("message", async (data) => {
-    try {
-      const message = JSON.parse(data.toString());
-      console.log(
-        `[WS Message] Room ${roomId}: Received ${message.type} from ${message.from}`
-      );
+    heartbeat.track(ws, context);
+
+    ws.on("message", async (data) => {
+      // Frames that arrive after the server closed the socket, e.g. from a
+      // kicked participant, are dropped
+      if (ws.readyState !== WebSocket.OPEN) return;
+
+      try {
+        // Create MessageEvent-like object for signaling handler
+        const evt = {
+          data: data.toString(),
+        } as MessageEvent;
 
-      // Extract participant ID from first message
-      if (message.from && !participantId) {
-        participantId = message.from;
-        wsToParticipant.set(ws, { roomId, participantId });
-        console.log(
-          `[WS] Participant ${participantId} registered for room ${roomId}`
+        await signalingHandler(evt, context, roomId, prisma);
+      } catch (error) {
+        console.error("Error handling WebSocket message:", error);
+        ws.send(
+          JSON.stringify({
+            type: "error",
+            message: "Failed to process message",
+          })
         );
       }
+    });
 
-      // Create MessageEvent-like object for signaling handler
-      const evt = {
-        data: data.toString(),
-      } as MessageEvent;
-
-      await signalingHandler(
-        evt,
-        {
-          send: (data: string) => ws.send(data),
-          readyState: ws.readyState,
-        } as any,
-        roomId,
-        prisma
-      );
-    } catch (error) {
-      console.error("Error handling WebSocket message:", error);
-      ws.send(
-        JSON.stringify({
-          type: "error",
-          message: "Failed to process message",
-        })
-      );
-    }
-  });
-
-  ws.on("close", () => {
-    console.log(`WebSocket closed for room: ${roomId}`);
-    const info = wsToParticipant.get(ws);
-    if (info) {
-      cleanupRoomConnection(info.roomId, info.participantId);
-    }
-  });
+    ws.on("close", () => {
+      console.log(`WebSocket closed for room: ${roomId}`);
+      suspendRoomConnection(roomId, context).catch((error) => {
+        console.error(`Failed to clean up ${context.participantId}:`, error);
+      });
+    });
 
-  ws.on("error", (error) => {
-    console.error(`WebSocket error in room ${roomId}:`, error);
-  });
+    ws.on("error", (error: Error & { code?: string }) => {
+      if (error.code === "WS_ERR_UNSUPPORTED_MESSAGE_LENGTH") {
+        increment("signaling_messages_oversized_total");
+      }
+      console.error(`WebSocket error in room ${roomId}:`, error);
+    });
 
-  console.log(`WebSocket opened for room: ${roomId}`);
-});
+    console.log(
+      `WebSocket opened for room: ${roomId} (${context.participantId}, role: ${context.role})`
+    );
+  }
+);
 
 server.listen(port, "0.0.0.0", () => {
   console.log(`Server running on port ${port}`);
@@ -0,0 +1,96 @@
+import { createHmac } from "crypto";
+
+// Matches RTCIceServer on the client
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceConfig {
+  iceServers: IceServer[];
+  // "relay" keeps peers from learning each other's addresses
+  iceTransportPolicy: "all" | "relay";
+  // ISO 8601; when the TURN credentials stop working, null without TURN
+  expiresAt: string | null;
+}
+
+export type IceConfigResult =
+  | { config: IceConfig; error?: undefined }
+  | { config?: undefined; error: string };
+
+const DEFAULT_STUN_URLS =
+  "stun:stun.l.google.com:19302,stun:stun1.l.google.com:19302";
+
+function parseUrls(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+// Time-limited TURN credentials for the TURN REST API scheme that coturn's
+// `use-auth-secret` implements: the username carries the expiry and the
+// password is an HMAC of it under the secret shared with the TURN server.
+export function createTurnCredentials(
+  secret: string,
+  participantId: string,
+  ttlSeconds: number,
+  now = Date.now()
+) {
+  const expiresAt = Math.floor(now / 1000) + ttlSeconds;
+  const username = `${expiresAt}:${participantId}`;
+  const credential = createHmac("sha1", secret)
+    .update(username)
+    .digest("base64");
+  return { username, credential, expiresAt: new Date(expiresAt * 1000) };
+}
+
+// ICE servers for one participant, from STUN_URLS, TURN_URLS and
+// TURN_SECRET. An empty STUN_URLS disables STUN for offline deployments.
+export function getIceConfig(
+  participantId: string,
+  relayOnly: boolean
+): IceConfigResult {
+  const stunUrls = parseUrls(process.env.STUN_URLS ?? DEFAULT_STUN_URLS);
+  const turnUrls = parseUrls(process.env.TURN_URLS);
+  const turnSecret = process.env.TURN_SECRET;
+  const ttlSeconds = Number(process.env.TURN_CREDENTIAL_TTL || 3600);
+
+  const iceServers: IceServer[] = [];
+  let expiresAt: string | null = null;
+
+  if (stunUrls.length > 0 && !relayOnly) {
+    iceServers.push({ urls: stunUrls });
+  }
+
+  if (turnUrls.length > 0) {
+    if (turnSecret) {
+      const turn = createTurnCredentials(turnSecret, participantId, ttlSeconds);
+      iceServers.push({
+        urls: turnUrls,
+        username: turn.username,
+        credential: turn.credential,
+      });
+      expiresAt = turn.expiresAt.toISOString();
+    } else {
+      console.error("[ICE] TURN_URLS is set but TURN_SECRET is not");
+    }
+  }
+
+  // Without a relay, relay-only peers could never connect; refuse rather
+  // than quietly exposing their addresses
+  if (relayOnly && expiresAt === null) {
+    return {
+      error: "This room requires a TURN server, but none is configured",
+    };
+  }
+
+  return {
+    config: {
+      iceServers,
+      iceTransportPolicy: relayOnly ? "relay" : "all",
+      expiresAt,
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import type { ParticipantRole } from "../ws/connection";
+
+// Claims minted by the Next.js app in /api/rooms/[roomId]/token
+export interface JoinTokenClaims {
+  roomId: string;
+  participantId: string;
+  userId: string | null; // null for guests
+  guestId: string | null; // set for guests instead of userId
+  name: string;
+  image: string | null;
+  role: ParticipantRole;
+  iat: number;
+  exp: number;
+}
+
+export type JoinTokenError = "invalid" | "expired";
+
+export type JoinTokenResult =
+  | { claims: JoinTokenClaims; error?: undefined }
+  | { claims?: undefined; error: JoinTokenError };
+
+function sign(payload: string, secret: string): Buffer {
+  return createHmac("sha256", secret).update(payload).digest();
+}
+
+// Verify a `<payload>.<signature>` token (both base64url encoded) and check
+// that it was issued for the room the socket is connecting to.
+export function verifyJoinToken(
+  token: string | null,
+  roomId: string
+): JoinTokenResult {
+  const secret = process.env.JOIN_TOKEN_SECRET;
+  if (!secret) {
+    console.error("[JoinToken] JOIN_TOKEN_SECRET is not configured");
+    return { error: "invalid" };
+  }
+
+  const [payload, signature] = token?.split(".") ?? [];
+  if (!payload || !signature) {
+    return { error: "invalid" };
+  }
+
+  const expected = sign(payload, secret);
+  const actual = Buffer.from(signature, "base64url");
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return { error: "invalid" };
+  }
+
+  let claims: JoinTokenClaims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+  } catch {
+    return { error: "invalid" };
+  }
+
+  if (claims.roomId !== roomId || !claims.participantId) {
+    return { error: "invalid" };
+  }
+
+  if (claims.exp * 1000 < Date.now()) {
+    return { error: "expired" };
+  }
+
+  return { claims };
+}
@@ -0,0 +1,107 @@
+import type { PrismaClient } from "@prisma/client";
+import type { WSContext } from "./connection";
+
+export type LeaveReason = "left" | "kicked" | "disconnected";
+
+// Persists who was in a room and when. Failures are logged and swallowed so
+// the database never holds up signaling.
+export interface AttendanceRecorder {
+  joined(roomId: string, ws: WSContext): Promise<void>;
+  left(
+    roomId: string,
+    participantId: string,
+    reason: LeaveReason
+  ): Promise<void>;
+  // Closes the records a stopped node left open. When those participants
+  // left is unknown, so each stay ends at its room's last recorded leave
+  // instead of counting until now.
+  closeStale(
+    isPresent: (roomId: string, participantId: string) => Promise<boolean>
+  ): Promise<void>;
+}
+
+export function createAttendanceRecorder(
+  prisma: PrismaClient
+): AttendanceRecorder {
+  return {
+    async joined(roomId, ws) {
+      try {
+        await prisma.participation.create({
+          data: {
+            roomId,
+            participantId: ws.participantId,
+            userId: ws.userId,
+            guestId: ws.guestId,
+            name: ws.name,
+          },
+        });
+      } catch (error) {
+        console.error(
+          `[Attendance] Failed to record ${ws.participantId} joining ${roomId}:`,
+          error
+        );
+      }
+    },
+
+    async left(roomId, participantId, reason) {
+      try {
+        // Closes the open record wherever the participant joined, so a kick
+        // from another node is recorded too
+        await prisma.participation.updateMany({
+          where: { roomId, participantId, leftAt: null },
+          data: { leftAt: new Date(), leaveReason: reason },
+        });
+      } catch (error) {
+        console.error(
+          `[Attendance] Failed to record ${participantId} leaving ${roomId}:`,
+          error
+        );
+      }
+    },
+
+    async closeStale(isPresent) {
+      try {
+        const open = await prisma.participation.findMany({
+          where: { leftAt: null },
+          select: {
+            id: true,
+            roomId: true,
+            participantId: true,
+            joinedAt: true,
+          },
+        });
+        const lastLeaves = new Map<string, Date | null>();
+        let closed = 0;
+
+        for (const record of open) {
+          if (await isPresent(record.roomId, record.participantId)) continue;
+
+          if (!lastLeaves.has(record.roomId)) {
+            const { _max } = await prisma.participation.aggregate({
+              where: { roomId: record.roomId },
+              _max: { leftAt: true },
+            });
+            lastLeaves.set(record.roomId, _max.leftAt);
+          }
+          const lastLeave = lastLeaves.get(record.roomId);
+          const leftAt =
+            lastLeave && lastLeave > record.joinedAt
+              ? lastLeave
+              : record.joinedAt;
+
+          await prisma.participation.updateMany({
+            where: { id: record.id, leftAt: null },
+            data: { leftAt, leaveReason: "disconnected" },
+          });
+          closed++;
+        }
+
+        if (closed > 0) {
+          console.log(`[Attendance] Closed ${closed} stale participation(s)`);
+        }
+      } catch (error) {
+        console.error("[Attendance] Failed to close stale records:", error);
+      }
+    },
+  };
+}
@@ -0,0 +1,104 @@
+import type { PrismaClient } from "@prisma/client";
+import type { ChatMessage } from "@shared/protocol";
+import type { WSContext } from "./connection";
+
+// How many recent messages a joiner receives with the participants list
+const CHAT_HISTORY_LIMIT = Number(process.env.CHAT_HISTORY_LIMIT || 50);
+
+interface ChatMessageRow {
+  id: string;
+  senderId: string;
+  name: string;
+  text: string;
+  recipientId: string | null;
+  createdAt: Date;
+}
+
+// Who a message belongs to. Exactly one of the two is set.
+export interface Identity {
+  userId: string | null;
+  guestId: string | null;
+}
+
+function toChatMessage(row: ChatMessageRow): ChatMessage {
+  return {
+    id: row.id,
+    from: row.senderId,
+    name: row.name,
+    text: row.text,
+    sentAt: row.createdAt.toISOString(),
+    to: row.recipientId ?? undefined,
+  };
+}
+
+export async function saveChatMessage(
+  prisma: PrismaClient,
+  roomId: string,
+  ws: WSContext,
+  text: string,
+  to?: { participantId: string } & Identity
+): Promise<ChatMessage> {
+  const row: ChatMessageRow = await prisma.chatMessage.create({
+    data: {
+      roomId,
+      senderId: ws.participantId,
+      userId: ws.userId,
+      guestId: ws.guestId,
+      name: ws.name,
+      text,
+      recipientId: to?.participantId ?? null,
+      recipientUserId: to?.userId ?? null,
+      recipientGuestId: to?.guestId ?? null,
+    },
+  });
+  return toChatMessage(row);
+}
+
+// Identity behind a participant id, from the participation recorded when it
+// joined. Null if it never joined the room.
+export async function findIdentity(
+  prisma: PrismaClient,
+  roomId: string,
+  participantId: string
+): Promise<Identity | null> {
+  return prisma.participation.findFirst({
+    where: { roomId, participantId },
+    orderBy: { joinedAt: "desc" },
+    select: { userId: true, guestId: true },
+  });
+}
+
+// Last CHAT_HISTORY_LIMIT messages of the room visible to the participant,
+// oldest first. Private messages are included only for their two ends,
+// matched by identity rather than by participant id.
+export async function loadChatHistory(
+  prisma: PrismaClient,
+  roomId: string,
+  { userId, guestId }: Identity
+): Promise<ChatMessage[]> {
+  const privateMessages = userId
+    ? [{ userId }, { recipientUserId: userId }]
+    : guestId
+    ? [{ guestId }, { recipientGuestId: guestId }]
+    : [];
+  const rows: ChatMessageRow[] = await prisma.chatMessage.findMany({
+    where: {
+      roomId,
+      OR: [{ recipientId: null }, ...privateMessages],
+    },
+    orderBy: { createdAt: "desc" },
+    take: CHAT_HISTORY_LIMIT,
+  });
+  return rows.reverse().map(toChatMessage);
+}
+
+export async function isPrivateChatEnabled(
+  prisma: PrismaClient,
+  roomId: string
+): Promise<boolean> {
+  const room = await prisma.room.findUnique({
+    where: { roomId },
+    select: { privateChatEnabled: true },
+  });
+  return room?.privateChatEnabled ?? true;
+}
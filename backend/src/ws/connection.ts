@@ -0,0 +1,49 @@
+import {
+  requiredCapability,
+  type Capability,
+  type ParticipantProfile,
+  type ServerMessage,
+} from "@shared/protocol";
+import type { RateLimiter } from "./rate-limit";
+
+export type ParticipantRole = "host" | "participant";
+
+export interface WSContext {
+  send: (data: string) => void;
+  close: (code?: number, reason?: string) => void;
+  readyState: number;
+  // Identity from the verified join token; clients cannot override it
+  participantId: string;
+  userId: string | null;
+  guestId: string | null;
+  name: string;
+  image: string | null;
+  role: ParticipantRole;
+  // Negotiated on join; empty until then
+  capabilities: Capability[];
+  rateLimiter: RateLimiter;
+}
+
+export function profileOf(ws: WSContext): ParticipantProfile {
+  return {
+    id: ws.participantId,
+    name: ws.name,
+    image: ws.image,
+    isGuest: ws.userId === null,
+    role: ws.role,
+  };
+}
+
+// Deliver a message if the socket is open and the client negotiated the
+// capability the message type belongs to.
+export function send(ws: WSContext, message: ServerMessage) {
+  if (ws.readyState !== 1) return false;
+
+  const capability = requiredCapability(message.type);
+  if (capability && !ws.capabilities.includes(capability)) {
+    return false;
+  }
+
+  ws.send(JSON.stringify(message));
+  return true;
+}
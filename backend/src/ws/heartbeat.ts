@@ -0,0 +1,43 @@
+import type { WebSocket, WebSocketServer } from "ws";
+import { send, type WSContext } from "./connection";
+
+// Pings every socket on an interval and terminates the ones that did not
+// answer (or send anything) since the previous round. Terminating emits
+// "close", which runs the normal room cleanup for the participant.
+//
+// Browsers cannot observe protocol-level pings, so joined clients also get
+// an application "heartbeat" message they use to detect a silent server.
+export function startHeartbeat(wss: WebSocketServer, intervalMs: number) {
+  const alive = new WeakSet<WebSocket>();
+  const contexts = new WeakMap<WebSocket, WSContext>();
+
+  const timer = setInterval(() => {
+    wss.clients.forEach((ws) => {
+      if (!alive.has(ws)) {
+        const participantId = contexts.get(ws)?.participantId ?? "unknown";
+        console.warn(`[Heartbeat] Terminating unresponsive ${participantId}`);
+        ws.terminate();
+        return;
+      }
+
+      alive.delete(ws);
+      ws.ping();
+
+      const context = contexts.get(ws);
+      if (context) {
+        send(context, { type: "heartbeat", intervalMs });
+      }
+    });
+  }, intervalMs);
+
+  wss.on("close", () => clearInterval(timer));
+
+  return {
+    track(ws: WebSocket, context: WSContext) {
+      alive.add(ws);
+      contexts.set(ws, context);
+      ws.on("pong", () => alive.add(ws));
+      ws.on("message", () => alive.add(ws));
+    },
+  };
+}
@@ -0,0 +1,132 @@
+import {
+  ADD_WITHIN_SCRIPT,
+  type RedisCommands,
+  type RedisSubscriber,
+} from "./redis-room-registry";
+
+type Listener = (channel: string, message: string) => void;
+
+interface SubscriberState {
+  channels: Set<string>;
+  listeners: Listener[];
+}
+
+// Stand-in for a Redis server that implements just what the Redis room
+// registry uses. Several registries created against the same broker behave
+// like backend nodes sharing one Redis, which makes multi-node routing easy
+// to exercise locally without running Redis.
+export function createInMemoryBroker() {
+  const strings = new Map<string, string>();
+  const hashes = new Map<string, Map<string, string>>();
+  // key -> expiry timestamp, for keys given a TTL
+  const expiries = new Map<string, number>();
+  const subscribers = new Set<SubscriberState>();
+
+  // Keys expire lazily, when they are next touched
+  function expire(key: string) {
+    const expiresAt = expiries.get(key);
+    if (expiresAt !== undefined && expiresAt <= Date.now()) {
+      expiries.delete(key);
+      strings.delete(key);
+      hashes.delete(key);
+    }
+  }
+
+  function hash(key: string) {
+    expire(key);
+    return hashes.get(key);
+  }
+
+  function hset(key: string, field: string, value: string) {
+    if (!hash(key)) {
+      hashes.set(key, new Map());
+    }
+    hashes.get(key)!.set(field, value);
+    return 1;
+  }
+
+  const commands: RedisCommands = {
+    async set(key, value, _mode, milliseconds) {
+      hashes.delete(key);
+      strings.set(key, value);
+      expiries.set(key, Date.now() + milliseconds);
+      return "OK";
+    },
+    async exists(key) {
+      expire(key);
+      return strings.has(key) || hashes.has(key) ? 1 : 0;
+    },
+    async pexpire(key, milliseconds) {
+      if (!(await commands.exists(key))) return 0;
+      expiries.set(key, Date.now() + milliseconds);
+      return 1;
+    },
+    async hset(key, field, value) {
+      return hset(key, field, value);
+    },
+    async hdel(key, field) {
+      const entries = hash(key);
+      const removed = entries?.delete(field) ?? false;
+      // Redis drops a hash with its last field, and its TTL with it
+      if (entries?.size === 0) {
+        hashes.delete(key);
+        expiries.delete(key);
+      }
+      return removed ? 1 : 0;
+    },
+    async hget(key, field) {
+      return hash(key)?.get(field) ?? null;
+    },
+    async hgetall(key) {
+      return Object.fromEntries(hash(key) ?? []);
+    },
+    async publish(channel, message) {
+      let receivers = 0;
+      subscribers.forEach((subscriber) => {
+        if (!subscriber.channels.has(channel)) return;
+        receivers++;
+        // Deliver asynchronously, like a message coming off the network
+        queueMicrotask(() => {
+          subscriber.listeners.forEach((listener) =>
+            listener(channel, message)
+          );
+        });
+      });
+      return receivers;
+    },
+    // There is no Lua here; known scripts are mirrored in TypeScript and
+    // run without awaiting, so they are just as atomic
+    async eval(script, _numKeys, key, ...args) {
+      if (script !== ADD_WITHIN_SCRIPT) {
+        throw new Error("The in-memory broker cannot run this script");
+      }
+      const [field, value, capacity] = args;
+      const members = hash(key);
+      if (!members?.has(field) && (members?.size ?? 0) >= Number(capacity)) {
+        return null;
+      }
+      const before = Array.from(members ?? []).flat();
+      hset(key, field, value);
+      return before;
+    },
+  };
+
+  function createSubscriber(): RedisSubscriber {
+    const state: SubscriberState = { channels: new Set(), listeners: [] };
+    subscribers.add(state);
+
+    return {
+      async subscribe(channel) {
+        state.channels.add(channel);
+      },
+      async unsubscribe(channel) {
+        state.channels.delete(channel);
+      },
+      on(_event, listener) {
+        state.listeners.push(listener);
+      },
+    };
+  }
+
+  return { commands, createSubscriber };
+}
@@ -0,0 +1,25 @@
+// Process-wide signaling counters, exposed in Prometheus text format on
+// GET /metrics for operators.
+
+type Counter =
+  | "signaling_messages_received_total"
+  | "signaling_messages_rate_limited_total"
+  | "signaling_messages_invalid_total"
+  | "signaling_messages_oversized_total"
+  | "signaling_policy_disconnects_total";
+
+const counters = new Map<string, number>();
+
+export function increment(counter: Counter, type?: string) {
+  const key = type ? `${counter}{type="${type}"}` : counter;
+  counters.set(key, (counters.get(key) ?? 0) + 1);
+}
+
+export function renderMetrics(gauges: Record<string, number> = {}) {
+  const lines: string[] = [];
+  counters.forEach((value, key) => lines.push(`${key} ${value}`));
+  Object.entries(gauges).forEach(([key, value]) =>
+    lines.push(`${key} ${value}`)
+  );
+  return `${lines.sort().join("\n")}\n`;
+}
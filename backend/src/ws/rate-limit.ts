@@ -0,0 +1,140 @@
+import { z } from "zod";
+import type { ClientMessage } from "@shared/protocol";
+
+export interface BucketConfig {
+  // Burst size
+  capacity: number;
+  refillPerSecond: number;
+}
+
+type MessageType = ClientMessage["type"];
+
+// Per-socket limits. ICE trickling legitimately sends bursts of candidates;
+// state broadcasts like audio-toggle fan out to every peer and stay tight.
+const DEFAULT_LIMITS: Record<MessageType, BucketConfig> = {
+  join: { capacity: 3, refillPerSecond: 0.2 },
+  offer: { capacity: 20, refillPerSecond: 2 },
+  answer: { capacity: 20, refillPerSecond: 2 },
+  "ice-candidate": { capacity: 100, refillPerSecond: 20 },
+  leave: { capacity: 3, refillPerSecond: 0.2 },
+  kick: { capacity: 10, refillPerSecond: 1 },
+  mute: { capacity: 10, refillPerSecond: 1 },
+  "audio-toggle": { capacity: 5, refillPerSecond: 1 },
+  admit: { capacity: 20, refillPerSecond: 2 },
+  "admit-all": { capacity: 5, refillPerSecond: 0.5 },
+  deny: { capacity: 20, refillPerSecond: 2 },
+  chat: { capacity: 5, refillPerSecond: 1 },
+  "private-chat": { capacity: 5, refillPerSecond: 0.5 },
+  hand: { capacity: 5, refillPerSecond: 0.5 },
+  "lower-hand": { capacity: 10, refillPerSecond: 1 },
+  reaction: { capacity: 5, refillPerSecond: 1 },
+  "screen-share-policy": { capacity: 5, refillPerSecond: 0.5 },
+  "sfu-answer": { capacity: 20, refillPerSecond: 2 },
+  "sfu-ice-candidate": { capacity: 100, refillPerSecond: 20 },
+  "sfu-restart": { capacity: 3, refillPerSecond: 0.2 },
+  "sfu-screen": { capacity: 10, refillPerSecond: 1 },
+  spotlight: { capacity: 10, refillPerSecond: 1 },
+};
+
+// Each rejected message drains this bucket; once it is empty the socket is
+// disconnected with a policy violation.
+const DEFAULT_VIOLATION_LIMIT: BucketConfig = {
+  capacity: 10,
+  refillPerSecond: 0.5,
+};
+
+const BucketConfigSchema = z.object({
+  capacity: z.number().positive(),
+  refillPerSecond: z.number().positive(),
+});
+
+const OverridesSchema = z.record(
+  z.enum(["violations", ...Object.keys(DEFAULT_LIMITS)]),
+  BucketConfigSchema
+);
+
+// RATE_LIMITS may override any message type, e.g.
+// {"audio-toggle":{"capacity":10,"refillPerSecond":2},"violations":{...}}
+// A malformed value is reported and the defaults are used instead.
+function parseOverrides(raw: string | undefined) {
+  if (!raw) return {};
+
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    console.error("[RateLimit] RATE_LIMITS is not valid JSON, using defaults");
+    return {};
+  }
+
+  const result = OverridesSchema.safeParse(json);
+  if (!result.success) {
+    const problems = result.error.issues
+      .map((issue) => `${issue.path.join(".") || "value"}: ${issue.message}`)
+      .join("; ");
+    console.error(
+      `[RateLimit] Invalid RATE_LIMITS, using defaults: ${problems}`
+    );
+    return {};
+  }
+  return result.data;
+}
+
+function loadConfig() {
+  const { violations, ...limits } = parseOverrides(process.env.RATE_LIMITS);
+
+  return {
+    limits: { ...DEFAULT_LIMITS, ...limits } as Record<string, BucketConfig>,
+    violations: violations ?? DEFAULT_VIOLATION_LIMIT,
+  };
+}
+
+const config = loadConfig();
+
+function createBucket({ capacity, refillPerSecond }: BucketConfig) {
+  let tokens = capacity;
+  let updatedAt = Date.now();
+
+  return {
+    take() {
+      const now = Date.now();
+      tokens = Math.min(
+        capacity,
+        tokens + ((now - updatedAt) / 1000) * refillPerSecond
+      );
+      updatedAt = now;
+
+      if (tokens < 1) return false;
+      tokens -= 1;
+      return true;
+    },
+  };
+}
+
+export type RateLimitResult = "allowed" | "limited" | "disconnect";
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
+
+// One limiter per socket, holding a bucket per message type
+export function createRateLimiter() {
+  const buckets = new Map<string, ReturnType<typeof createBucket>>();
+  const violations = createBucket(config.violations);
+
+  return {
+    check(type: MessageType): RateLimitResult {
+      let bucket = buckets.get(type);
+      if (!bucket) {
+        bucket = createBucket(config.limits[type]);
+        buckets.set(type, bucket);
+      }
+
+      if (bucket.take()) return "allowed";
+      return violations.take() ? "limited" : "disconnect";
+    },
+    // Messages that fail to parse never reach a per-type bucket, so they go
+    // straight against the violations
+    reject(): RateLimitResult {
+      return violations.take() ? "limited" : "disconnect";
+    },
+  };
+}
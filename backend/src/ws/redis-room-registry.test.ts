@@ -0,0 +1,154 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { WSContext } from "./connection";
+import { createRateLimiter } from "./rate-limit";
+
+// Short enough for a dead node to be noticed within a test
+process.env.REGISTRY_NODE_TTL_MS = "150";
+const { createRedisRoomRegistry } = await import("./redis-room-registry");
+const { createInMemoryBroker } = await import("./in-memory-broker");
+
+type Broker = ReturnType<typeof createInMemoryBroker>;
+type Options = Parameters<typeof createRedisRoomRegistry>[2];
+
+// A backend node sharing the broker with the others. Once crashed, its
+// heartbeat no longer reaches the broker.
+function createNode(broker: Broker, nodeId: string, options: Options = {}) {
+  let alive = true;
+  const commands = {
+    ...broker.commands,
+    set: (...args: Parameters<Broker["commands"]["set"]>) =>
+      alive ? broker.commands.set(...args) : Promise.resolve("OK"),
+  };
+  const registry = createRedisRoomRegistry(
+    commands,
+    broker.createSubscriber(),
+    { nodeId, ...options }
+  );
+  return {
+    registry,
+    crash() {
+      alive = false;
+    },
+  };
+}
+
+function socket(participantId: string) {
+  const frames: string[] = [];
+  const ws: WSContext = {
+    send: (data) => frames.push(data),
+    close: () => {},
+    readyState: 1,
+    participantId,
+    userId: null,
+    guestId: participantId,
+    name: participantId,
+    image: null,
+    role: "participant",
+    capabilities: [],
+    rateLimiter: createRateLimiter(),
+  };
+  return { ws, frames };
+}
+
+// Let published envelopes arrive
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test("routes messages to participants on other nodes", async () => {
+  const broker = createInMemoryBroker();
+  const one = createNode(broker, "one");
+  const two = createNode(broker, "two");
+  const alice = socket("alice");
+  const bob = socket("bob");
+  await one.registry.add("room", alice.ws);
+  await two.registry.add("room", bob.ws);
+
+  assert.deepEqual((await one.registry.members("room")).sort(), [
+    "alice",
+    "bob",
+  ]);
+
+  await one.registry.broadcast(
+    "room",
+    { type: "participant-left", from: "carol" },
+    "alice"
+  );
+  await two.registry.sendTo("room", "alice", {
+    type: "participant-left",
+    from: "dave",
+  });
+  await settle();
+
+  assert.deepEqual(
+    bob.frames.map((frame) => JSON.parse(frame).from),
+    ["carol"]
+  );
+  assert.deepEqual(
+    alice.frames.map((frame) => JSON.parse(frame).from),
+    ["dave"]
+  );
+});
+
+test("lets only one of two nodes take a room's last place", async () => {
+  const broker = createInMemoryBroker();
+  const one = createNode(broker, "one");
+  const two = createNode(broker, "two");
+  await one.registry.add("room", socket("host").ws);
+
+  const results = await Promise.all([
+    one.registry.addWithin("room", socket("alice").ws, 2),
+    two.registry.addWithin("room", socket("bob").ws, 2),
+  ]);
+
+  assert.equal(results.filter((others) => others !== null).length, 1);
+  assert.equal((await one.registry.members("room")).length, 2);
+});
+
+test("sweeps the members of a node that died", async () => {
+  const broker = createInMemoryBroker();
+  const lost: string[] = [];
+  const one = createNode(broker, "one", {
+    onMemberLost: async (roomId, participantId) => {
+      lost.push(participantId);
+      await one.registry.remove(roomId, participantId);
+    },
+  });
+  const two = createNode(broker, "two");
+  await one.registry.add("room", socket("alice").ws);
+  await two.registry.add("room", socket("bob").ws);
+
+  two.crash();
+  await sleep(400);
+
+  assert.deepEqual(lost, ["bob"]);
+  assert.deepEqual(await one.registry.members("room"), ["alice"]);
+  assert.deepEqual(
+    Object.keys(await broker.commands.hgetall("meetflow:room:room:members")),
+    ["alice"]
+  );
+});
+
+test("hands a session over to the node it resumed on", async () => {
+  const broker = createInMemoryBroker();
+  const handedOver: string[] = [];
+  const one = createNode(broker, "one", {
+    onHandover: (_roomId, ws) => {
+      handedOver.push(ws.participantId);
+      return ['{"type":"lobby-waiting"}'];
+    },
+  });
+  const two = createNode(broker, "two");
+  await one.registry.add("room", socket("alice").ws);
+
+  assert.equal(await two.registry.heldElsewhere("room", "alice"), true);
+  const resumed = socket("alice");
+  await two.registry.add("room", resumed.ws);
+  await settle();
+  await settle();
+
+  assert.deepEqual(handedOver, ["alice"]);
+  assert.equal(one.registry.getLocal("room", "alice"), undefined);
+  assert.deepEqual(resumed.frames, ['{"type":"lobby-waiting"}']);
+  assert.deepEqual(await one.registry.members("room"), ["alice"]);
+});
@@ -0,0 +1,403 @@
+import { randomUUID } from "crypto";
+import type { ParticipantProfile, ServerMessage } from "@shared/protocol";
+import { profileOf, send, type WSContext } from "./connection";
+import {
+  createLocalConnections,
+  sortHands,
+  type RoomRegistry,
+  type SocketClose,
+} from "./room-registry";
+
+// The subset of Redis commands the registry needs. ioredis clients satisfy
+// these interfaces, as does the in-memory broker in ./in-memory-broker.
+export interface RedisCommands {
+  set(
+    key: string,
+    value: string,
+    mode: "PX",
+    milliseconds: number
+  ): Promise<unknown>;
+  exists(key: string): Promise<number>;
+  pexpire(key: string, milliseconds: number): Promise<number>;
+  hset(key: string, field: string, value: string): Promise<unknown>;
+  hdel(key: string, field: string): Promise<number>;
+  hget(key: string, field: string): Promise<string | null>;
+  hgetall(key: string): Promise<Record<string, string>>;
+  publish(channel: string, message: string): Promise<unknown>;
+  eval(script: string, numKeys: number, ...args: string[]): Promise<unknown>;
+}
+
+// Redis requires a dedicated connection for subscriptions
+export interface RedisSubscriber {
+  subscribe(channel: string): Promise<unknown>;
+  unsubscribe(channel: string): Promise<unknown>;
+  on(
+    event: "message",
+    listener: (channel: string, message: string) => void
+  ): unknown;
+}
+
+// Published on a room's channel so every node can act on it
+type Envelope = { origin: string } & (
+  | { kind: "message"; message: ServerMessage; to?: string; exceptId?: string }
+  | { kind: "remove"; participantId: string; close?: SocketClose }
+  // A participant's session moved to the publishing node
+  | { kind: "handover"; participantId: string }
+  // Serialized messages a node buffered for a participant before handing
+  // it over, delivered as they are
+  | { kind: "frames"; to: string; frames: string[] }
+);
+
+// Value stored per participant in a room's members hash
+interface Member {
+  nodeId: string;
+  profile: ParticipantProfile;
+}
+
+export interface RedisRoomRegistryOptions {
+  nodeId?: string;
+  // Called for members whose node stopped heartbeating, so the caller can
+  // clean up after them as if they had disconnected. Without it they are
+  // only dropped from the members hash.
+  onMemberLost?: (roomId: string, participantId: string) => Promise<void>;
+  // Called when a participant's session moves to another node, with the
+  // socket held here. Returns serialized messages still owed to the
+  // participant, which are forwarded to its new node.
+  onHandover?: (roomId: string, ws: WSContext) => string[];
+}
+
+const KEY_PREFIX = "meetflow:room:";
+const NODE_PREFIX = "meetflow:node:";
+
+// A node refreshes its key several times per TTL; once the key expires the
+// node is considered dead and its members are swept by the others
+const NODE_TTL_MS = Number(process.env.REGISTRY_NODE_TTL_MS) || 30_000;
+const HEARTBEAT_INTERVAL_MS = NODE_TTL_MS / 3;
+// Room keys are refreshed by every node with members in the room, so they
+// only expire once no live node has anyone left in it
+const ROOM_TTL_MS = NODE_TTL_MS * 2;
+
+const nodeKey = (nodeId: string) => `${NODE_PREFIX}${nodeId}`;
+
+// Sets a member unless the room holds ARGV[3] others already, and returns
+// the members from before (HGETALL's flat field/value list), or nil when
+// full. Scripts run atomically, so concurrent joins on different nodes
+// cannot overfill a room. Members of a dead node count until swept.
+export const ADD_WITHIN_SCRIPT = `
+local members = redis.call("HGETALL", KEYS[1])
+if redis.call("HEXISTS", KEYS[1], ARGV[1]) == 0
+  and #members / 2 >= tonumber(ARGV[3]) then
+  return false
+end
+redis.call("HSET", KEYS[1], ARGV[1], ARGV[2])
+return members
+`;
+
+const membersKey = (roomId: string) => `${KEY_PREFIX}${roomId}:members`;
+// participant id -> raisedAt
+const handsKey = (roomId: string) => `${KEY_PREFIX}${roomId}:hands`;
+// Room-wide settings that live as long as the meeting, e.g. "spotlight"
+const stateKey = (roomId: string) => `${KEY_PREFIX}${roomId}:state`;
+const roomChannel = (roomId: string) => `${KEY_PREFIX}${roomId}`;
+
+// Multi-node registry. Membership (participant -> node and profile) is kept in a Redis
+// hash per room and messages for participants on other nodes travel over a
+// pub/sub channel per room. Each node only subscribes to rooms it has local
+// sockets in, and delivers to its own sockets directly. Nodes heartbeat a
+// key of their own; members of a node whose key expired are ignored and
+// swept, and room keys expire once no live node refreshes them.
+export function createRedisRoomRegistry(
+  commands: RedisCommands,
+  subscriber: RedisSubscriber,
+  {
+    nodeId = randomUUID(),
+    onMemberLost,
+    onHandover,
+  }: RedisRoomRegistryOptions = {}
+): RoomRegistry {
+  const local = createLocalConnections();
+
+  heartbeat();
+  setInterval(heartbeat, HEARTBEAT_INTERVAL_MS).unref();
+
+  subscriber.on("message", (channel, raw) => {
+    if (!channel.startsWith(KEY_PREFIX)) return;
+    const roomId = channel.slice(KEY_PREFIX.length);
+
+    let envelope: Envelope;
+    try {
+      envelope = JSON.parse(raw);
+    } catch {
+      console.error(`[Registry] Dropping malformed envelope on ${channel}`);
+      return;
+    }
+    // Local recipients were already served by the publishing node
+    if (envelope.origin === nodeId) return;
+
+    if (envelope.kind === "remove") {
+      removeLocal(roomId, envelope.participantId, envelope.close);
+    } else if (envelope.kind === "handover") {
+      handOver(roomId, envelope.participantId).catch((error) => {
+        console.error(`[Registry] Failed to hand over ${roomId}:`, error);
+      });
+    } else if (envelope.kind === "frames") {
+      const ws = local.get(roomId, envelope.to);
+      envelope.frames.forEach((frame) => ws?.send(frame));
+    } else if (envelope.to) {
+      const ws = local.get(roomId, envelope.to);
+      if (ws) send(ws, envelope.message);
+    } else {
+      local.deliver(roomId, envelope.message, envelope.exceptId);
+    }
+  });
+
+  function removeLocal(
+    roomId: string,
+    participantId: string,
+    close?: SocketClose
+  ) {
+    const removed = local.remove(roomId, participantId, close);
+    if (removed && local.ids(roomId).length === 0) {
+      subscriber.unsubscribe(roomChannel(roomId)).catch((error) => {
+        console.error(`[Registry] Failed to unsubscribe ${roomId}:`, error);
+      });
+    }
+    return removed;
+  }
+
+  function heartbeat() {
+    refresh().catch((error) => {
+      console.error("[Registry] Heartbeat failed:", error);
+    });
+  }
+
+  async function refresh() {
+    await commands.set(nodeKey(nodeId), "1", "PX", NODE_TTL_MS);
+    for (const roomId of local.roomIds()) {
+      await Promise.all(
+        [membersKey, handsKey, stateKey].map((key) =>
+          commands.pexpire(key(roomId), ROOM_TTL_MS)
+        )
+      );
+      const { lost } = await readMembers(roomId);
+      for (const participantId of lost) {
+        console.log(`[Registry] ${participantId} lost with their node`);
+        if (onMemberLost) {
+          await onMemberLost(roomId, participantId);
+        } else {
+          await commands.hdel(membersKey(roomId), participantId);
+        }
+      }
+    }
+  }
+
+  // A room's members, split by whether their node is still alive
+  async function readMembers(roomId: string) {
+    return splitByLiveness(
+      Object.entries(await commands.hgetall(membersKey(roomId)))
+    );
+  }
+
+  async function splitByLiveness(raw: [string, string][]) {
+    const entries = raw.map(
+      ([id, value]) => [id, JSON.parse(value) as Member] as const
+    );
+
+    const dead = new Set<string>();
+    const others = new Set(entries.map(([, member]) => member.nodeId));
+    others.delete(nodeId);
+    await Promise.all(
+      Array.from(others, async (other) => {
+        if (!(await commands.exists(nodeKey(other)))) dead.add(other);
+      })
+    );
+
+    return {
+      live: entries.filter(([, member]) => !dead.has(member.nodeId)),
+      lost: entries
+        .filter(([, member]) => dead.has(member.nodeId))
+        .map(([id]) => id),
+    };
+  }
+
+  // Forget a session another node took over, passing on what it buffered
+  async function handOver(roomId: string, participantId: string) {
+    const ws = local.get(roomId, participantId);
+    if (!ws) return;
+
+    const frames = onHandover?.(roomId, ws) ?? [];
+    removeLocal(roomId, participantId);
+    if (frames.length > 0) {
+      await publish(roomId, {
+        origin: nodeId,
+        kind: "frames",
+        to: participantId,
+        frames,
+      });
+    }
+  }
+
+  async function publish(roomId: string, envelope: Envelope) {
+    await commands.publish(roomChannel(roomId), JSON.stringify(envelope));
+  }
+
+  return {
+    async add(roomId, ws) {
+      if (local.ids(roomId).length === 0) {
+        await subscriber.subscribe(roomChannel(roomId));
+      }
+      local.add(roomId, ws);
+      const member: Member = { nodeId, profile: profileOf(ws) };
+      const previous = await commands.hget(
+        membersKey(roomId),
+        ws.participantId
+      );
+      await commands.hset(
+        membersKey(roomId),
+        ws.participantId,
+        JSON.stringify(member)
+      );
+      // The session resumed here; its old node lets go of it
+      if (previous && (JSON.parse(previous) as Member).nodeId !== nodeId) {
+        await publish(roomId, {
+          origin: nodeId,
+          kind: "handover",
+          participantId: ws.participantId,
+        });
+      }
+    },
+
+    async heldElsewhere(roomId, participantId) {
+      const raw = await commands.hget(membersKey(roomId), participantId);
+      if (!raw) return false;
+      const owner = (JSON.parse(raw) as Member).nodeId;
+      return owner !== nodeId && (await commands.exists(nodeKey(owner))) > 0;
+    },
+
+    async addWithin(roomId, ws, capacity) {
+      if (local.ids(roomId).length === 0) {
+        await subscriber.subscribe(roomChannel(roomId));
+      }
+      const member: Member = { nodeId, profile: profileOf(ws) };
+      const before = (await commands.eval(
+        ADD_WITHIN_SCRIPT,
+        1,
+        membersKey(roomId),
+        ws.participantId,
+        JSON.stringify(member),
+        String(capacity)
+      )) as string[] | null;
+
+      if (!before) {
+        if (local.ids(roomId).length === 0) {
+          await subscriber.unsubscribe(roomChannel(roomId));
+        }
+        return null;
+      }
+      local.add(roomId, ws);
+
+      const entries: [string, string][] = [];
+      for (let i = 0; i < before.length; i += 2) {
+        if (before[i] !== ws.participantId) {
+          entries.push([before[i], before[i + 1]]);
+        }
+      }
+      const { live } = await splitByLiveness(entries);
+      return live.map(([, member]) => member.profile);
+    },
+
+    async remove(roomId, participantId, close) {
+      if (removeLocal(roomId, participantId, close)) {
+        // The participant may have reconnected to another node since
+        const raw = await commands.hget(membersKey(roomId), participantId);
+        if (!raw || (JSON.parse(raw) as Member).nodeId !== nodeId) {
+          return false;
+        }
+      } else {
+        // The socket may live on another node; tell it to forget the member
+        await publish(roomId, {
+          origin: nodeId,
+          kind: "remove",
+          participantId,
+          close,
+        });
+      }
+      return (await commands.hdel(membersKey(roomId), participantId)) > 0;
+    },
+
+    getLocal(roomId, participantId) {
+      return local.get(roomId, participantId);
+    },
+
+    async members(roomId) {
+      const { live } = await readMembers(roomId);
+      return live.map(([id]) => id);
+    },
+
+    async profiles(roomId) {
+      const { live } = await readMembers(roomId);
+      return live.map(([, member]) => member.profile);
+    },
+
+    async sendTo(roomId, participantId, message) {
+      const ws = local.get(roomId, participantId);
+      if (ws) {
+        send(ws, message);
+        return true;
+      }
+
+      if (!(await commands.hget(membersKey(roomId), participantId))) {
+        return false;
+      }
+      await publish(roomId, {
+        origin: nodeId,
+        kind: "message",
+        message,
+        to: participantId,
+      });
+      return true;
+    },
+
+    async broadcast(roomId, message, exceptId) {
+      local.deliver(roomId, message, exceptId);
+      await publish(roomId, {
+        origin: nodeId,
+        kind: "message",
+        message,
+        exceptId,
+      });
+    },
+
+    async raiseHand(roomId, participantId) {
+      const raisedAt = await commands.hget(handsKey(roomId), participantId);
+      if (raisedAt) return raisedAt;
+
+      const now = new Date().toISOString();
+      await commands.hset(handsKey(roomId), participantId, now);
+      return now;
+    },
+
+    async lowerHand(roomId, participantId) {
+      return (await commands.hdel(handsKey(roomId), participantId)) > 0;
+    },
+
+    async raisedHands(roomId) {
+      const hands = await commands.hgetall(handsKey(roomId));
+      return sortHands(
+        Object.entries(hands).map(([id, raisedAt]) => ({ id, raisedAt }))
+      );
+    },
+
+    async setSpotlight(roomId, participantId) {
+      if (participantId) {
+        await commands.hset(stateKey(roomId), "spotlight", participantId);
+      } else {
+        await commands.hdel(stateKey(roomId), "spotlight");
+      }
+    },
+
+    async spotlight(roomId) {
+      return commands.hget(stateKey(roomId), "spotlight");
+    },
+  };
+}
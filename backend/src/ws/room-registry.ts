@@ -0,0 +1,198 @@
+import type {
+  ParticipantProfile,
+  RaisedHand,
+  ServerMessage,
+} from "@shared/protocol";
+import { profileOf, send, type WSContext } from "./connection";
+
+// Tracks which participants are in which room and routes messages to them.
+// Implementations decide where sockets live: the in-memory registry only
+// knows about this process, the Redis registry spans every backend node.
+export interface RoomRegistry {
+  // Register a socket connected to this node as a room member. If another
+  // node held the participant, that node hands the session over.
+  add(roomId: string, ws: WSContext): Promise<void>;
+  // Register a socket unless `capacity` other participants are members
+  // already, checked and added in one step so concurrent joins cannot both
+  // take the last place. Returns everyone else who was in the room at that
+  // moment, or null if it was full.
+  addWithin(
+    roomId: string,
+    ws: WSContext,
+    capacity: number
+  ): Promise<ParticipantProfile[] | null>;
+  // Returns false if the participant was not a member. With `close`, the
+  // participant's socket is closed too, on whichever node holds it.
+  remove(
+    roomId: string,
+    participantId: string,
+    close?: SocketClose
+  ): Promise<boolean>;
+  // The socket registered for a participant on this node, if any
+  getLocal(roomId: string, participantId: string): WSContext | undefined;
+  // Whether a live node other than this one holds the participant, e.g.
+  // the one it was connected to before reconnecting here
+  heldElsewhere(roomId: string, participantId: string): Promise<boolean>;
+  members(roomId: string): Promise<string[]>;
+  profiles(roomId: string): Promise<ParticipantProfile[]>;
+  // Route a message to one member, wherever it is connected. Returns false
+  // if the participant is not in the room.
+  sendTo(
+    roomId: string,
+    participantId: string,
+    message: ServerMessage
+  ): Promise<boolean>;
+  broadcast(
+    roomId: string,
+    message: ServerMessage,
+    exceptId?: string
+  ): Promise<void>;
+  // Raised hands, shared by every node. Raising an already raised hand
+  // keeps its place; returns when the hand went up.
+  raiseHand(roomId: string, participantId: string): Promise<string>;
+  // Returns false if the hand was not raised
+  lowerHand(roomId: string, participantId: string): Promise<boolean>;
+  // Oldest first
+  raisedHands(roomId: string): Promise<RaisedHand[]>;
+  // Participant a host featured for everyone; null when nobody is
+  setSpotlight(roomId: string, participantId: string | null): Promise<void>;
+  spotlight(roomId: string): Promise<string | null>;
+}
+
+export interface SocketClose {
+  code: number;
+  reason: string;
+}
+
+// Oldest first; ISO timestamps sort as strings
+export function sortHands(hands: RaisedHand[]) {
+  return hands.sort((a, b) => a.raisedAt.localeCompare(b.raisedAt));
+}
+
+// Sockets connected to this process, per room
+export function createLocalConnections() {
+  const rooms = new Map<string, Map<string, WSContext>>();
+
+  return {
+    get(roomId: string, participantId: string) {
+      return rooms.get(roomId)?.get(participantId);
+    },
+    ids(roomId: string) {
+      return Array.from(rooms.get(roomId)?.keys() ?? []);
+    },
+    roomIds() {
+      return Array.from(rooms.keys());
+    },
+    profiles(roomId: string) {
+      return Array.from(rooms.get(roomId)?.values() ?? [], profileOf);
+    },
+    add(roomId: string, ws: WSContext) {
+      if (!rooms.has(roomId)) {
+        rooms.set(roomId, new Map());
+      }
+      rooms.get(roomId)!.set(ws.participantId, ws);
+    },
+    remove(roomId: string, participantId: string, close?: SocketClose) {
+      const connections = rooms.get(roomId);
+      const ws = connections?.get(participantId);
+      const removed = connections?.delete(participantId) ?? false;
+      if (connections?.size === 0) {
+        rooms.delete(roomId);
+      }
+      if (ws && close) {
+        ws.close(close.code, close.reason);
+      }
+      return removed;
+    },
+    deliver(roomId: string, message: ServerMessage, exceptId?: string) {
+      rooms.get(roomId)?.forEach((ws, participantId) => {
+        if (participantId !== exceptId) {
+          send(ws, message);
+        }
+      });
+    },
+  };
+}
+
+// Single-node registry: everything lives in this process
+export function createInMemoryRoomRegistry(): RoomRegistry {
+  const local = createLocalConnections();
+  // roomId -> participant id -> raisedAt
+  const hands = new Map<string, Map<string, string>>();
+  // roomId -> spotlighted participant id
+  const spotlights = new Map<string, string>();
+
+  return {
+    async add(roomId, ws) {
+      local.add(roomId, ws);
+    },
+    async addWithin(roomId, ws, capacity) {
+      const others = local
+        .profiles(roomId)
+        .filter((profile) => profile.id !== ws.participantId);
+      if (others.length >= capacity) return null;
+      local.add(roomId, ws);
+      return others;
+    },
+    async remove(roomId, participantId, close) {
+      return local.remove(roomId, participantId, close);
+    },
+    getLocal(roomId, participantId) {
+      return local.get(roomId, participantId);
+    },
+    async heldElsewhere() {
+      return false;
+    },
+    async members(roomId) {
+      return local.ids(roomId);
+    },
+    async profiles(roomId) {
+      return local.profiles(roomId);
+    },
+    async sendTo(roomId, participantId, message) {
+      const ws = local.get(roomId, participantId);
+      if (!ws) return false;
+      send(ws, message);
+      return true;
+    },
+    async broadcast(roomId, message, exceptId) {
+      local.deliver(roomId, message, exceptId);
+    },
+    async raiseHand(roomId, participantId) {
+      if (!hands.has(roomId)) {
+        hands.set(roomId, new Map());
+      }
+      const room = hands.get(roomId)!;
+      if (!room.has(participantId)) {
+        room.set(participantId, new Date().toISOString());
+      }
+      return room.get(participantId)!;
+    },
+    async lowerHand(roomId, participantId) {
+      const room = hands.get(roomId);
+      const lowered = room?.delete(participantId) ?? false;
+      if (room?.size === 0) {
+        hands.delete(roomId);
+      }
+      return lowered;
+    },
+    async raisedHands(roomId) {
+      return sortHands(
+        Array.from(hands.get(roomId) ?? [], ([id, raisedAt]) => ({
+          id,
+          raisedAt,
+        }))
+      );
+    },
+    async setSpotlight(roomId, participantId) {
+      if (participantId) {
+        spotlights.set(roomId, participantId);
+      } else {
+        spotlights.delete(roomId);
+      }
+    },
+    async spotlight(roomId) {
+      return spotlights.get(roomId) ?? null;
+    },
+  };
+}
@@ -0,0 +1,12 @@
+import type { PrismaClient } from "@prisma/client";
+
+export async function isScreenShareHostsOnly(
+  prisma: PrismaClient,
+  roomId: string
+): Promise<boolean> {
+  const room = await prisma.room.findUnique({
+    where: { roomId },
+    select: { screenShareHostsOnly: true },
+  });
+  return room?.screenShareHostsOnly ?? false;
+}
@@ -0,0 +1,444 @@
+import type { PrismaClient } from "@prisma/client";
+import {
+  RTCPeerConnection,
+  useAbsSendTime,
+  useOPUS,
+  useSdesMid,
+  useVP8,
+  type MediaStreamTrack,
+  type PeerConfig,
+  type RTCRtpTransceiver,
+} from "werift";
+import type {
+  ClientMessage,
+  ForwardedTrack,
+  PublishedTrack,
+  ServerMessage,
+} from "@shared/protocol";
+
+export async function isSfuEnabled(
+  prisma: PrismaClient,
+  roomId: string
+): Promise<boolean> {
+  const room = await prisma.room.findUnique({
+    where: { roomId },
+    select: { sfuEnabled: true },
+  });
+  return room?.sfuEnabled ?? false;
+}
+
+// Routes a message to a participant wherever its socket is
+type Deliver = (
+  roomId: string,
+  participantId: string,
+  message: ServerMessage
+) => Promise<unknown>;
+
+type SessionDescription = Extract<ClientMessage, { type: "sfu-answer" }>["sdp"];
+type IceCandidate = Extract<
+  ClientMessage,
+  { type: "sfu-ice-candidate" }
+>["candidate"];
+
+// Selective forwarding unit: every participant publishes its media to the
+// server once and receives everyone else's over the same connection. The
+// server always makes the offers, so negotiation never collides.
+export interface SelectiveForwarder {
+  isForwarding(roomId: string): boolean;
+  // Open a connection for a participant and send it the first offer
+  join(roomId: string, participantId: string): void;
+  leave(roomId: string, participantId: string): void;
+  // Returns false if no offer was waiting for this answer
+  answer(
+    roomId: string,
+    participantId: string,
+    sdp: SessionDescription
+  ): Promise<boolean>;
+  addIceCandidate(
+    roomId: string,
+    participantId: string,
+    candidate: IceCandidate
+  ): Promise<void>;
+  // Send a new offer that restarts ICE on a dropped connection
+  restartIce(roomId: string, participantId: string): void;
+  setScreenSharing(
+    roomId: string,
+    participantId: string,
+    sharing: boolean
+  ): void;
+}
+
+// A track received from a participant
+interface Publication {
+  participantId: string;
+  screen: boolean;
+  track: MediaStreamTrack;
+  // Subscribers can only start decoding video from a keyframe
+  requestKeyframe: () => void;
+}
+
+// A sendonly transceiver on a subscriber's connection. Freed slots are
+// reused for the next publication of the same kind so the SDP stays small.
+interface Slot {
+  transceiver: RTCRtpTransceiver;
+  publication: Publication | null;
+  stopForwarding: () => void;
+}
+
+interface Peer {
+  participantId: string;
+  pc: RTCPeerConnection;
+  // Transceivers the participant sends its own media on
+  publish: { transceiver: RTCRtpTransceiver; screen: boolean }[];
+  publications: Publication[];
+  sharingScreen: boolean;
+  slots: Slot[];
+  // An offer is waiting for its answer; changes made meanwhile go out in
+  // the next one
+  offering: boolean;
+  renegotiate: boolean;
+  // The next offer restarts ICE
+  iceRestart: boolean;
+}
+
+// Every participant gets a camera and a screen share pair to publish on
+const PUBLISHED_KINDS = [
+  { kind: "audio", screen: false },
+  { kind: "video", screen: false },
+  { kind: "audio", screen: true },
+  { kind: "video", screen: true },
+] as const;
+
+// Publishers and subscribers must agree on codecs since packets are
+// forwarded as they are
+function peerConfig(): Partial<PeerConfig> {
+  const portRange = process.env.SFU_PORT_RANGE?.match(/^(\d+)-(\d+)$/);
+  return {
+    codecs: { audio: [useOPUS()], video: [useVP8()] },
+    headerExtensions: {
+      audio: [useSdesMid()],
+      video: [useSdesMid(), useAbsSendTime()],
+    },
+    bundlePolicy: "max-bundle",
+    icePortRange: portRange
+      ? [Number(portRange[1]), Number(portRange[2])]
+      : undefined,
+    iceAdditionalHostAddresses: process.env.SFU_ANNOUNCED_ADDRESS
+      ? [process.env.SFU_ANNOUNCED_ADDRESS]
+      : undefined,
+  };
+}
+
+function report(action: string) {
+  return (error: unknown) => {
+    console.error(`[SFU] Failed to ${action}:`, error);
+  };
+}
+
+export function createSelectiveForwarder(deliver: Deliver): SelectiveForwarder {
+  const rooms = new Map<string, Map<string, Peer>>();
+
+  async function negotiate(roomId: string, peer: Peer) {
+    if (peer.offering) {
+      peer.renegotiate = true;
+      return;
+    }
+    peer.offering = true;
+    peer.renegotiate = false;
+    const iceRestart = peer.iceRestart;
+    peer.iceRestart = false;
+
+    await peer.pc.setLocalDescription(
+      await peer.pc.createOffer({ iceRestart })
+    );
+    const publish: PublishedTrack[] = peer.publish.map(
+      ({ transceiver, screen }) => ({
+        mid: transceiver.mid!,
+        kind: transceiver.kind as PublishedTrack["kind"],
+        screen: screen || undefined,
+      })
+    );
+    const tracks: ForwardedTrack[] = peer.slots.flatMap(
+      ({ transceiver, publication }) =>
+        publication && transceiver.mid
+          ? [
+              {
+                mid: transceiver.mid,
+                participantId: publication.participantId,
+                screen: publication.screen || undefined,
+              },
+            ]
+          : []
+    );
+    await deliver(roomId, peer.participantId, {
+      type: "sfu-offer",
+      sdp: { type: "offer", sdp: peer.pc.localDescription!.sdp },
+      publish,
+      tracks,
+    });
+  }
+
+  function renegotiate(roomId: string, peer: Peer) {
+    negotiate(roomId, peer).catch(
+      report(`send an offer to ${peer.participantId}`)
+    );
+  }
+
+  function isVisibleTo(
+    subscriber: Peer,
+    publication: Publication,
+    peers: Map<string, Peer>
+  ) {
+    if (publication.participantId === subscriber.participantId) return false;
+    return (
+      !publication.screen ||
+      peers.get(publication.participantId)?.sharingScreen === true
+    );
+  }
+
+  function forward(subscriber: Peer, publication: Publication) {
+    const kind = publication.track.kind;
+    let slot = subscriber.slots.find(
+      (s) => !s.publication && s.transceiver.kind === kind
+    );
+    if (slot) {
+      slot.transceiver.setDirection("sendonly");
+    } else {
+      const created: Slot = {
+        transceiver: subscriber.pc.addTransceiver(kind, {
+          direction: "sendonly",
+        }),
+        publication: null,
+        stopForwarding: () => {},
+      };
+      // The subscriber lost a keyframe; only the publisher can send one
+      created.transceiver.sender.onPictureLossIndication.subscribe(() =>
+        created.publication?.requestKeyframe()
+      );
+      subscriber.slots.push(created);
+      slot = created;
+    }
+
+    const { sender } = slot.transceiver;
+    let first = true;
+    const { unSubscribe } = publication.track.onReceiveRtp.subscribe((rtp) => {
+      // Senders rewrite the header, so every subscriber needs its own copy
+      const packet = rtp.clone();
+      // Carry on from the sequence the slot's previous publication left
+      if (first) {
+        sender.replaceRTP(packet.header, true);
+        first = false;
+      }
+      sender.sendRtp(packet).catch(report("forward a packet"));
+    });
+    slot.publication = publication;
+    slot.stopForwarding = unSubscribe;
+    publication.requestKeyframe();
+  }
+
+  function stopForwarding(slot: Slot) {
+    slot.stopForwarding();
+    slot.publication = null;
+    slot.transceiver.setDirection("inactive");
+  }
+
+  // Stop forwarding matching publications to anyone
+  function withdraw(
+    roomId: string,
+    matches: (publication: Publication) => boolean
+  ) {
+    for (const peer of rooms.get(roomId)?.values() ?? []) {
+      const slots = peer.slots.filter(
+        (slot) => slot.publication && matches(slot.publication)
+      );
+      slots.forEach(stopForwarding);
+      if (slots.length > 0) renegotiate(roomId, peer);
+    }
+  }
+
+  function publish(
+    roomId: string,
+    peer: Peer,
+    transceiver: RTCRtpTransceiver,
+    track: MediaStreamTrack,
+    screen: boolean
+  ) {
+    // A new track on the same transceiver replaces the previous one
+    const previous = peer.publications.find(
+      (p) => p.screen === screen && p.track.kind === track.kind
+    );
+    if (previous) {
+      peer.publications = peer.publications.filter((p) => p !== previous);
+      withdraw(roomId, (p) => p === previous);
+    }
+
+    const publication: Publication = {
+      participantId: peer.participantId,
+      screen,
+      track,
+      requestKeyframe: () => {
+        if (track.kind !== "video" || track.ssrc === undefined) return;
+        transceiver.receiver
+          .sendRtcpPLI(track.ssrc)
+          .catch(report(`request a keyframe from ${peer.participantId}`));
+      },
+    };
+    peer.publications.push(publication);
+    console.log(
+      `[SFU] ${peer.participantId} publishes ${screen ? "screen" : "camera"} ${
+        track.kind
+      } in room ${roomId}`
+    );
+
+    const peers = rooms.get(roomId);
+    if (!peers) return;
+    for (const subscriber of peers.values()) {
+      if (!isVisibleTo(subscriber, publication, peers)) continue;
+      forward(subscriber, publication);
+      renegotiate(roomId, subscriber);
+    }
+  }
+
+  function leave(roomId: string, participantId: string) {
+    const peers = rooms.get(roomId);
+    const peer = peers?.get(participantId);
+    if (!peers || !peer) return;
+
+    peers.delete(participantId);
+    // Stop copying other publishers' packets into the closed connection
+    peer.slots.forEach(stopForwarding);
+    peer.slots = [];
+    peer.pc.close().catch(report(`close the connection to ${participantId}`));
+    withdraw(roomId, (p) => p.participantId === participantId);
+
+    if (peers.size === 0) {
+      rooms.delete(roomId);
+      console.log(`[SFU] Room ${roomId} is empty, stopped forwarding`);
+    }
+  }
+
+  return {
+    isForwarding(roomId) {
+      return rooms.has(roomId);
+    },
+
+    join(roomId, participantId) {
+      // A participant that joins again starts over
+      leave(roomId, participantId);
+      let peers = rooms.get(roomId);
+      if (!peers) {
+        peers = new Map();
+        rooms.set(roomId, peers);
+        console.log(`[SFU] Forwarding media in room ${roomId}`);
+      }
+
+      const pc = new RTCPeerConnection(peerConfig());
+      const peer: Peer = {
+        participantId,
+        pc,
+        publish: [],
+        publications: [],
+        sharingScreen: false,
+        slots: [],
+        offering: false,
+        renegotiate: false,
+        iceRestart: false,
+      };
+
+      for (const { kind, screen } of PUBLISHED_KINDS) {
+        const transceiver = pc.addTransceiver(kind, { direction: "recvonly" });
+        transceiver.onTrack.subscribe((track) =>
+          publish(roomId, peer, transceiver, track, screen)
+        );
+        peer.publish.push({ transceiver, screen });
+      }
+
+      pc.onIceCandidate.subscribe((candidate) => {
+        if (!candidate) return;
+        deliver(roomId, participantId, {
+          type: "sfu-ice-candidate",
+          candidate: candidate.toJSON(),
+        }).catch(report(`send a candidate to ${participantId}`));
+      });
+
+      pc.connectionStateChange.subscribe((state) => {
+        console.log(`[SFU] Connection with ${participantId}: ${state}`);
+        // Keyframes requested before the connection was up never arrived
+        if (state === "connected") {
+          peer.slots.forEach((slot) => slot.publication?.requestKeyframe());
+        }
+      });
+
+      peers.set(participantId, peer);
+      for (const publisher of peers.values()) {
+        for (const publication of publisher.publications) {
+          if (isVisibleTo(peer, publication, peers)) {
+            forward(peer, publication);
+          }
+        }
+      }
+      renegotiate(roomId, peer);
+    },
+
+    leave,
+
+    async answer(roomId, participantId, sdp) {
+      const peer = rooms.get(roomId)?.get(participantId);
+      if (!peer?.offering) return false;
+
+      try {
+        await peer.pc.setRemoteDescription(sdp);
+      } catch (error) {
+        // Offer again rather than wait for an answer that never comes
+        peer.offering = false;
+        renegotiate(roomId, peer);
+        throw error;
+      }
+      peer.offering = false;
+      if (peer.renegotiate) {
+        await negotiate(roomId, peer);
+      }
+      return true;
+    },
+
+    async addIceCandidate(roomId, participantId, candidate) {
+      await rooms
+        .get(roomId)
+        ?.get(participantId)
+        ?.pc.addIceCandidate(candidate);
+    },
+
+    restartIce(roomId, participantId) {
+      const peer = rooms.get(roomId)?.get(participantId);
+      if (!peer) return;
+
+      console.log(`[SFU] Restarting ICE with ${participantId}`);
+      peer.iceRestart = true;
+      renegotiate(roomId, peer);
+    },
+
+    setScreenSharing(roomId, participantId, sharing) {
+      const peers = rooms.get(roomId);
+      const peer = peers?.get(participantId);
+      if (!peers || !peer || peer.sharingScreen === sharing) return;
+
+      peer.sharingScreen = sharing;
+      console.log(
+        `[SFU] ${participantId} ${
+          sharing ? "started" : "stopped"
+        } sharing their screen in room ${roomId}`
+      );
+      if (!sharing) {
+        withdraw(roomId, (p) => p.participantId === participantId && p.screen);
+        return;
+      }
+
+      const screens = peer.publications.filter((p) => p.screen);
+      for (const subscriber of peers.values()) {
+        if (subscriber === peer || screens.length === 0) continue;
+        screens.forEach((publication) => forward(subscriber, publication));
+        renegotiate(roomId, subscriber);
+      }
+    },
+  };
+}
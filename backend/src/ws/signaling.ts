@@ -1,252 +1,534 @@
-// import type { PrismaClient } from "@prisma/client";
-
-interface SignalingMessage {
-  type:
-    | "offer"
-    | "answer"
-    | "ice-candidate"
-    | "join"
-    | "leave"
-    | "kick"
-    | "mute"
-    | "audio-toggle";
-  from: string; // participant ID
-  to?: string; // target participant ID (for peer-to-peer)
-  roomId?: string;
-  data?: any;
-  sdp?: RTCSessionDescriptionInit;
-  candidate?: RTCIceCandidateInit;
-  muted?: boolean; // for mute message
-  audioEnabled?: boolean; // for audio-toggle message
+import type { PrismaClient } from "@prisma/client";
+import {
+  CAPABILITIES,
+  CloseCode,
+  PROTOCOL_VERSION,
+  negotiateCapabilities,
+  parseClientMessage,
+  type ClientMessage,
+  type ServerMessage,
+  type SignalingErrorCode,
+  type Topology,
+} from "@shared/protocol";
+import type { AttendanceRecorder } from "./attendance";
+import {
+  findIdentity,
+  isPrivateChatEnabled,
+  loadChatHistory,
+  saveChatMessage,
+} from "./chat";
+import { profileOf, send, type WSContext } from "./connection";
+import { increment } from "./metrics";
+import { createInMemoryRoomRegistry, type RoomRegistry } from "./room-registry";
+import { isScreenShareHostsOnly } from "./screen-share";
+import { createSelectiveForwarder, isSfuEnabled } from "./sfu";
+
+// Moderation actions that only the room host may perform. Any new
+// moderation message type must be added here so it is rejected for
+// non-host connections before it reaches the switch below.
+const HOST_ONLY_MESSAGE_TYPES = [
+  "kick",
+  "mute",
+  "admit",
+  "admit-all",
+  "deny",
+  "private-chat",
+  "lower-hand",
+  "screen-share-policy",
+  "spotlight",
+] as const satisfies readonly ClientMessage["type"][];
+
+type HostOnlyMessageType = (typeof HOST_ONLY_MESSAGE_TYPES)[number];
+
+function isHostOnlyMessage(type: string): type is HostOnlyMessageType {
+  return (HOST_ONLY_MESSAGE_TYPES as readonly string[]).includes(type);
+}
+
+function sendError(ws: WSContext, code: SignalingErrorCode, message: string) {
+  send(ws, { type: "error", code, message });
 }
 
-interface WSContext {
-  send: (data: string) => void;
-  readyState: number;
+// Room membership and message routing; swapped for a shared registry when
+// several backend nodes serve the same rooms
+let registry: RoomRegistry = createInMemoryRoomRegistry();
+
+export function setRoomRegistry(roomRegistry: RoomRegistry) {
+  registry = roomRegistry;
 }
 
-// Store active connections per room
-const roomConnections = new Map<string, Map<string, WSContext>>();
+// Participation records; attendance is not persisted until one is set
+let attendance: AttendanceRecorder | null = null;
+
+export function setAttendanceRecorder(recorder: AttendanceRecorder) {
+  attendance = recorder;
+}
+
+// Mesh calls open a peer connection per participant, so rooms are capped
+// unless the room sets its own limit
+const DEFAULT_MAX_PARTICIPANTS = Number(process.env.MAX_PARTICIPANTS || 8);
+
+// Rooms move their media to the SFU once this many participants are in;
+// 0 leaves it to the room setting
+const SFU_PARTICIPANT_THRESHOLD = Number(
+  process.env.SFU_PARTICIPANT_THRESHOLD ?? 5
+);
+
+// Rooms the SFU can take over send each participant's media once, so they
+// hold more people by default
+const SFU_MAX_PARTICIPANTS = Number(process.env.SFU_MAX_PARTICIPANTS || 50);
+
+// Forwarded media stays on this node; offers reach participants through
+// the registry like any other message
+const sfu = createSelectiveForwarder((roomId, participantId, message) =>
+  registry.sendTo(roomId, participantId, message)
+);
+
+// How long a dropped participant keeps its slot before peers are told it
+// left. Messages addressed to it meanwhile are buffered and replayed.
+const RESUME_GRACE_MS = Number(process.env.RESUME_GRACE_MS || 20000);
+const MAX_BUFFERED_MESSAGES = 500;
+
+interface SuspendedSession {
+  placeholder: WSContext;
+  buffer: string[];
+  timer: NodeJS.Timeout;
+}
+
+const suspendedSessions = new Map<string, SuspendedSession>();
+
+const sessionKey = (roomId: string, participantId: string) =>
+  `${roomId}:${participantId}`;
+
+// Pseudo-rooms in the registry for participants waiting in a room's lobby
+// and for its hosts, so lobby traffic reaches them on any backend node
+const lobbyRoom = (roomId: string) => `${roomId}#lobby`;
+const hostsRoom = (roomId: string) => `${roomId}#hosts`;
+
+// Lobby entry -> socket of the participant waiting behind it
+const waitingSockets = new WeakMap<WSContext, WSContext>();
+
+function isWaiting(roomId: string, ws: WSContext) {
+  const entry = registry.getLocal(lobbyRoom(roomId), ws.participantId);
+  return entry !== undefined && waitingSockets.get(entry) === ws;
+}
 
 export async function signalingHandler(
   event: MessageEvent,
   ws: WSContext,
   roomId: string,
-  prisma: any
+  prisma: PrismaClient
 ) {
   try {
-    const message: SignalingMessage = JSON.parse(event.data as string);
-    console.log(
-      `[Signaling] Room ${roomId}: Received ${message.type} from ${
-        message.from
-      }${message.to ? ` to ${message.to}` : ""}`
-    );
+    const parsed = parseClientMessage(event.data as string);
+    if (!parsed.ok) {
+      console.warn(
+        `[Signaling] Room ${roomId}: Invalid message from ${ws.participantId}: ${parsed.error}`
+      );
+      increment("signaling_messages_invalid_total");
+      if (ws.rateLimiter.reject() === "disconnect") {
+        console.warn(
+          `[Signaling] Room ${roomId}: Disconnecting ${ws.participantId} for sending invalid messages`
+        );
+        increment("signaling_policy_disconnects_total");
+        ws.close(CloseCode.POLICY_VIOLATION, "Too many invalid messages");
+      } else {
+        sendError(ws, "invalid-message", parsed.error);
+      }
+      return;
+    }
+    const message: ClientMessage = parsed.message;
+
+    // Identity comes from the connection, never from the client payload
+    const from = ws.participantId;
+    increment("signaling_messages_received_total", message.type);
+
+    // Reply with an error first; keep flooding and the socket is dropped
+    const limit = ws.rateLimiter.check(message.type);
+    if (limit !== "allowed") {
+      increment("signaling_messages_rate_limited_total", message.type);
+      if (limit === "disconnect") {
+        console.warn(
+          `[Signaling] Room ${roomId}: Disconnecting ${from} for exceeding rate limits`
+        );
+        increment("signaling_policy_disconnects_total");
+        ws.close(CloseCode.POLICY_VIOLATION, "Rate limit exceeded");
+      } else {
+        sendError(ws, "rate-limited", `Too many "${message.type}" messages`);
+      }
+      return;
+    }
+
+    if (isHostOnlyMessage(message.type) && ws.role !== "host") {
+      console.warn(
+        `[Signaling] Room ${roomId}: Rejected ${message.type} from non-host ${from}`
+      );
+      sendError(
+        ws,
+        "forbidden",
+        `Only the host can send "${message.type}" messages`
+      );
+      return;
+    }
 
-    // Initialize room if needed
-    if (!roomConnections.has(roomId)) {
-      roomConnections.set(roomId, new Map());
+    // Everything but join needs a socket that is in the room, so the lobby
+    // and the capacity limit cannot be skipped. Waiting joiners may leave.
+    if (
+      message.type !== "join" &&
+      registry.getLocal(roomId, from) !== ws &&
+      !(message.type === "leave" && isWaiting(roomId, ws))
+    ) {
+      sendError(
+        ws,
+        "forbidden",
+        isWaiting(roomId, ws)
+          ? "Waiting for the host to admit you"
+          : "Join the room first"
+      );
+      return;
     }
-    const connections = roomConnections.get(roomId)!;
 
     switch (message.type) {
       case "join":
-        // Store connection with participant ID
-        connections.set(message.from, ws);
-        console.log(
-          `[Join] ${message.from} joined room ${roomId}. Total participants: ${connections.size}`
-        );
+        const current = registry.getLocal(roomId, from);
+        // Joining again on the same socket would record and announce the
+        // participant twice
+        if (current === ws || isWaiting(roomId, ws)) {
+          console.log(`[Join] Ignoring repeated join from ${from}`);
+          break;
+        }
+
+        ws.capabilities = negotiateCapabilities(message);
+        if (current || (await registry.heldElsewhere(roomId, from))) {
+          await resumeSession(roomId, ws, current, prisma);
+          break;
+        }
 
-        // Send list of existing participants to the new joiner
-        const existingParticipants = Array.from(connections.keys()).filter(
-          (id) => id !== message.from
-        );
         console.log(
-          `[Join] Sending ${existingParticipants.length} existing participants to ${message.from}:`,
-          existingParticipants
-        );
-        ws.send(
-          JSON.stringify({
-            type: "participants",
-            participants: existingParticipants,
-          })
+          `[Join] ${from} connected to room ${roomId} (protocol v${
+            message.version ?? "legacy"
+          }, capabilities: ${ws.capabilities.join(", ") || "none"})`
         );
 
-        // Notify other participants about the new joiner
-        connections.forEach((otherWs, participantId) => {
-          if (participantId !== message.from && otherWs.readyState === 1) {
-            console.log(
-              `[Join] Notifying ${participantId} about ${message.from}`
-            );
-            otherWs.send(
-              JSON.stringify({
-                type: "participant-joined",
-                from: message.from,
-              })
-            );
-          }
+        const room = await prisma.room.findUnique({
+          where: { roomId },
+          select: {
+            maxParticipants: true,
+            lobbyEnabled: true,
+            sfuEnabled: true,
+          },
         });
+        const canForward =
+          SFU_PARTICIPANT_THRESHOLD > 0 || room?.sfuEnabled === true;
+        const maxParticipants =
+          room?.maxParticipants ??
+          (canForward ? SFU_MAX_PARTICIPANTS : DEFAULT_MAX_PARTICIPANTS);
+
+        if (room?.lobbyEnabled && ws.role !== "host") {
+          await holdInLobby(roomId, ws, maxParticipants, prisma);
+        } else {
+          await enterRoom(roomId, ws, maxParticipants, prisma);
+        }
         break;
 
       case "offer":
-        // Forward offer to target participant
-        if (message.to) {
-          const targetWs = connections.get(message.to);
-          if (targetWs && targetWs.readyState === 1) {
-            console.log(
-              `[Offer] Forwarding offer from ${message.from} to ${message.to}`
-            );
-            targetWs.send(
-              JSON.stringify({
-                type: "offer",
-                from: message.from,
-                to: message.to,
-                sdp: message.sdp,
-              })
-            );
-          } else {
-            console.log(`[Offer] Target ${message.to} not found or not ready`);
-          }
+      case "answer":
+        // Media flows peer to peer, so a restricted screen share is stopped
+        // by refusing to relay the offer that carries it
+        if (
+          message.type === "offer" &&
+          message.screenStreamId &&
+          ws.role !== "host" &&
+          (await isScreenShareHostsOnly(prisma, roomId))
+        ) {
+          console.warn(
+            `[offer] Room ${roomId}: Rejected screen share from non-host ${from}`
+          );
+          send(ws, {
+            type: "error",
+            code: "screen-share-forbidden",
+            message: "Only hosts can share their screen",
+            to: message.to,
+          });
+          break;
+        }
+
+        // Forward offer/answer to target participant
+        if (
+          await registry.sendTo(roomId, message.to, {
+            type: message.type,
+            from,
+            to: message.to,
+            sdp: message.sdp,
+            screenStreamId:
+              message.type === "offer" ? message.screenStreamId : undefined,
+            reset: message.type === "offer" ? message.reset : undefined,
+          })
+        ) {
+          console.log(
+            `[${message.type}] Forwarding ${message.type} from ${from} to ${message.to}`
+          );
+        } else {
+          console.log(`[${message.type}] Target ${message.to} not found`);
         }
         break;
 
-      case "answer":
-        // Forward answer to target participant
-        if (message.to) {
-          const targetWs = connections.get(message.to);
-          if (targetWs && targetWs.readyState === 1) {
-            console.log(
-              `[Answer] Forwarding answer from ${message.from} to ${message.to}`
-            );
-            targetWs.send(
-              JSON.stringify({
-                type: "answer",
-                from: message.from,
-                to: message.to,
-                sdp: message.sdp,
-              })
-            );
-          } else {
-            console.log(`[Answer] Target ${message.to} not found or not ready`);
-          }
+      case "sfu-answer":
+        if (!(await sfu.answer(roomId, from, message.sdp))) {
+          console.log(`[SFU] Unexpected answer from ${from}`);
+        }
+        break;
+
+      case "sfu-ice-candidate":
+        await sfu.addIceCandidate(roomId, from, message.candidate);
+        break;
+
+      case "sfu-restart":
+        sfu.restartIce(roomId, from);
+        break;
+
+      case "sfu-screen":
+        if (
+          message.sharing &&
+          ws.role !== "host" &&
+          (await isScreenShareHostsOnly(prisma, roomId))
+        ) {
+          console.warn(
+            `[SFU] Room ${roomId}: Rejected screen share from non-host ${from}`
+          );
+          sendError(
+            ws,
+            "screen-share-forbidden",
+            "Only hosts can share their screen"
+          );
+          break;
         }
+        sfu.setScreenSharing(roomId, from, message.sharing);
         break;
 
       case "ice-candidate":
         // Forward ICE candidate to target participant
-        if (message.to) {
-          const targetWs = connections.get(message.to);
-          if (targetWs && targetWs.readyState === 1) {
-            console.log(
-              `[ICE] Forwarding ICE candidate from ${message.from} to ${message.to}`
-            );
-            targetWs.send(
-              JSON.stringify({
-                type: "ice-candidate",
-                from: message.from,
-                to: message.to,
-                candidate: message.candidate,
-              })
-            );
-          } else {
-            console.log(
-              `[ICE] Target ${message.to} not found or not ready. Available:`,
-              Array.from(connections.keys())
-            );
-          }
-        } else {
+        if (
+          await registry.sendTo(roomId, message.to, {
+            type: "ice-candidate",
+            from,
+            to: message.to,
+            candidate: message.candidate,
+          })
+        ) {
           console.log(
-            `[ICE] No target specified for ICE candidate from ${message.from}`
+            `[ICE] Forwarding ICE candidate from ${from} to ${message.to}`
           );
+        } else {
+          console.log(`[ICE] Target ${message.to} not found`);
         }
         break;
 
       case "leave":
-        connections.delete(message.from);
-
-        // Notify other participants
-        connections.forEach((otherWs) => {
-          if (otherWs.readyState === 1) {
-            otherWs.send(
-              JSON.stringify({
-                type: "participant-left",
-                from: message.from,
-              })
-            );
-          }
-        });
+        console.log(`[Leave] ${from} left room ${roomId}`);
+        if (isWaiting(roomId, ws)) {
+          await leaveLobby(roomId, from);
+          break;
+        }
+        await removeHost(roomId, from);
+        if (await registry.remove(roomId, from)) {
+          await attendance?.left(roomId, from, "left");
+          await registry.lowerHand(roomId, from);
+          await releaseSpotlight(roomId, from);
+          sfu.leave(roomId, from);
+          // Notify other participants
+          await registry.broadcast(roomId, { type: "participant-left", from });
+        }
         break;
 
       case "kick":
         // Host kicks a participant
-        if (message.to) {
-          const targetWs = connections.get(message.to);
-          if (targetWs && targetWs.readyState === 1) {
-            console.log(
-              `[Kick] ${message.from} is kicking ${message.to} from room ${roomId}`
-            );
-            // Notify the kicked participant
-            targetWs.send(
-              JSON.stringify({
-                type: "kicked",
-                from: message.from,
-              })
-            );
-            // Remove the connection
-            connections.delete(message.to);
-
-            // Notify other participants
-            connections.forEach((otherWs, participantId) => {
-              if (participantId !== message.to && otherWs.readyState === 1) {
-                otherWs.send(
-                  JSON.stringify({
-                    type: "participant-left",
-                    from: message.to,
-                  })
-                );
-              }
-            });
-          }
+        if (
+          await registry.sendTo(roomId, message.to, { type: "kicked", from })
+        ) {
+          console.log(
+            `[Kick] ${from} is kicking ${message.to} from room ${roomId}`
+          );
+          await removeHost(roomId, message.to);
+          // Close the socket server-side; a modified client could otherwise
+          // ignore the kick and keep its connection
+          await registry.remove(roomId, message.to, {
+            code: CloseCode.KICKED,
+            reason: "Removed by the host",
+          });
+          await attendance?.left(roomId, message.to, "kicked");
+          await registry.lowerHand(roomId, message.to);
+          await releaseSpotlight(roomId, message.to);
+          sfu.leave(roomId, message.to);
+
+          // Notify other participants
+          await registry.broadcast(roomId, {
+            type: "participant-left",
+            from: message.to,
+          });
         }
         break;
 
       case "mute":
         // Host mutes/unmutes a participant
-        if (message.to) {
-          const targetWs = connections.get(message.to);
-          if (targetWs && targetWs.readyState === 1) {
-            console.log(
-              `[Mute] ${message.from} is ${
-                message.muted ? "muting" : "unmuting"
-              } ${message.to}`
-            );
-            targetWs.send(
-              JSON.stringify({
-                type: "mute",
-                from: message.from,
-                muted: message.muted,
-              })
-            );
-          }
-        }
+        console.log(
+          `[Mute] ${from} is ${message.muted ? "muting" : "unmuting"} ${
+            message.to
+          }`
+        );
+        await registry.sendTo(roomId, message.to, {
+          type: "mute",
+          from,
+          muted: message.muted,
+        });
         break;
 
       case "audio-toggle":
         // Broadcast audio toggle state to all other participants
         console.log(
-          `[Audio Toggle] ${message.from} audio is now ${
+          `[Audio Toggle] ${from} audio is now ${
             message.audioEnabled ? "enabled" : "disabled"
           }`
         );
-        connections.forEach((otherWs, participantId) => {
-          if (participantId !== message.from && otherWs.readyState === 1) {
-            otherWs.send(
-              JSON.stringify({
-                type: "audio-toggle",
-                from: message.from,
-                audioEnabled: message.audioEnabled,
-              })
-            );
-          }
+        await registry.broadcast(
+          roomId,
+          { type: "audio-toggle", from, audioEnabled: message.audioEnabled },
+          from
+        );
+        break;
+
+      case "admit":
+      case "deny":
+        console.log(
+          `[Lobby] ${from} ${
+            message.type === "admit" ? "admitted" : "denied"
+          } ${message.to} in room ${roomId}`
+        );
+        await registry.sendTo(lobbyRoom(roomId), message.to, {
+          type: message.type === "admit" ? "lobby-admitted" : "lobby-denied",
+        });
+        break;
+
+      case "admit-all":
+        console.log(`[Lobby] ${from} admitted everyone in room ${roomId}`);
+        for (const id of await registry.members(lobbyRoom(roomId))) {
+          await registry.sendTo(lobbyRoom(roomId), id, {
+            type: "lobby-admitted",
+          });
+        }
+        break;
+
+      case "chat":
+        if (message.to) {
+          await sendPrivateMessage(
+            roomId,
+            ws,
+            message.to,
+            message.text,
+            prisma
+          );
+          break;
+        }
+
+        console.log(`[Chat] ${from} sent a message in room ${roomId}`);
+        const chat = await saveChatMessage(prisma, roomId, ws, message.text);
+        await registry.broadcast(roomId, { type: "chat", ...chat });
+        break;
+
+      case "private-chat":
+        console.log(
+          `[Chat] ${from} ${
+            message.enabled ? "enabled" : "disabled"
+          } private chat in room ${roomId}`
+        );
+        await prisma.room.update({
+          where: { roomId },
+          data: { privateChatEnabled: message.enabled },
+        });
+        await registry.broadcast(roomId, {
+          type: "private-chat",
+          enabled: message.enabled,
+        });
+        break;
+
+      case "hand":
+        if (message.raised) {
+          const raisedAt = await registry.raiseHand(roomId, from);
+          console.log(`[Hand] ${from} raised their hand in room ${roomId}`);
+          await registry.broadcast(roomId, {
+            type: "hand",
+            from,
+            raised: true,
+            raisedAt,
+          });
+        } else if (await registry.lowerHand(roomId, from)) {
+          console.log(`[Hand] ${from} lowered their hand in room ${roomId}`);
+          await registry.broadcast(roomId, {
+            type: "hand",
+            from,
+            raised: false,
+          });
+        }
+        break;
+
+      case "lower-hand":
+        if (await registry.lowerHand(roomId, message.to)) {
+          console.log(`[Hand] ${from} lowered the hand of ${message.to}`);
+          await registry.broadcast(roomId, {
+            type: "hand",
+            from: message.to,
+            raised: false,
+            loweredBy: from,
+          });
+        }
+        break;
+
+      case "reaction":
+        // The sender shows its own reaction without waiting for the server
+        await registry.broadcast(
+          roomId,
+          { type: "reaction", from, emoji: message.emoji },
+          from
+        );
+        break;
+
+      case "screen-share-policy":
+        console.log(
+          `[Screen Share] ${from} ${
+            message.hostsOnly ? "restricted" : "opened"
+          } screen sharing in room ${roomId}`
+        );
+        await prisma.room.update({
+          where: { roomId },
+          data: { screenShareHostsOnly: message.hostsOnly },
+        });
+        await registry.broadcast(roomId, {
+          type: "screen-share-policy",
+          hostsOnly: message.hostsOnly,
+        });
+        break;
+
+      case "spotlight":
+        if (
+          message.participantId &&
+          !(await registry.members(roomId)).includes(message.participantId)
+        ) {
+          sendError(
+            ws,
+            "not-found",
+            "That participant is no longer in the room"
+          );
+          break;
+        }
+        console.log(
+          message.participantId
+            ? `[Spotlight] ${from} spotlighted ${message.participantId} in room ${roomId}`
+            : `[Spotlight] ${from} cleared the spotlight in room ${roomId}`
+        );
+        await registry.setSpotlight(roomId, message.participantId);
+        await registry.broadcast(roomId, {
+          type: "spotlight",
+          participantId: message.participantId,
+          from,
         });
         break;
     }
@@ -261,26 +543,411 @@ export async function signalingHandler(
   }
 }
 
+// Register a participant and start the offer flow with everyone present
+async function enterRoom(
+  roomId: string,
+  ws: WSContext,
+  maxParticipants: number,
+  prisma: PrismaClient
+) {
+  const from = ws.participantId;
+
+  const profiles = await registry.addWithin(roomId, ws, maxParticipants);
+  if (!profiles) {
+    console.log(
+      `[Join] Room ${roomId} is full (${maxParticipants}), rejecting ${from}`
+    );
+    send(ws, { type: "room-full", maxParticipants });
+    ws.close(CloseCode.ROOM_FULL, "Room is full");
+    return;
+  }
+
+  // Those who were here before us. Anyone joining later is announced to us
+  // by participant-joined and sends the offer itself.
+  const existingParticipants = profiles.map((profile) => profile.id);
+  await attendance?.joined(roomId, ws);
+  console.log(
+    `[Join] ${from} joined room ${roomId}. Total participants: ${
+      existingParticipants.length + 1
+    }`
+  );
+
+  const forwarding = sfu.isForwarding(roomId);
+  const topology =
+    forwarding || (await shouldForward(roomId, prisma)) ? "sfu" : "mesh";
+
+  // Send list of existing participants to the new joiner
+  console.log(
+    `[Join] Sending ${existingParticipants.length} existing participants to ${from}:`,
+    existingParticipants
+  );
+  send(ws, {
+    type: "participants",
+    participants: existingParticipants,
+    profiles,
+    version: PROTOCOL_VERSION,
+    capabilities: ws.capabilities,
+    ...(await roomSnapshot(roomId, ws, topology, prisma)),
+  });
+
+  // Notify other participants about the new joiner
+  await registry.broadcast(
+    roomId,
+    { type: "participant-joined", from, profile: profileOf(ws) },
+    from
+  );
+
+  if (topology === "sfu") {
+    if (!forwarding) {
+      console.log(`[SFU] Room ${roomId} switches to the SFU`);
+      await registry.broadcast(roomId, { type: "topology", topology }, from);
+      existingParticipants.forEach((id) => sfu.join(roomId, id));
+    }
+    if (ws.capabilities.includes("sfu")) {
+      sfu.join(roomId, from);
+    } else {
+      console.warn(
+        `[SFU] ${from} joined room ${roomId} without SFU support and receives no media`
+      );
+    }
+  }
+
+  if (ws.role === "host") {
+    await addHost(roomId, ws);
+  }
+}
+
+// Room state sent along with the participant list, both on joining and on
+// resuming, since it may have changed while a session was suspended
+async function roomSnapshot(
+  roomId: string,
+  ws: WSContext,
+  topology: Topology,
+  prisma: PrismaClient
+) {
+  return {
+    chatHistory: ws.capabilities.includes("chat")
+      ? await loadChatHistory(prisma, roomId, ws)
+      : undefined,
+    privateChatEnabled: await isPrivateChatEnabled(prisma, roomId),
+    raisedHands: await registry.raisedHands(roomId),
+    screenShareHostsOnly: await isScreenShareHostsOnly(prisma, roomId),
+    topology,
+    spotlightId: await registry.spotlight(roomId),
+  };
+}
+
+// Whether a mesh room should move its media to the SFU. Everyone must
+// support it and be connected to this node, since forwarded media never
+// leaves the node that receives it.
+async function shouldForward(roomId: string, prisma: PrismaClient) {
+  const members = await registry.members(roomId);
+  const wanted =
+    (SFU_PARTICIPANT_THRESHOLD > 0 &&
+      members.length >= SFU_PARTICIPANT_THRESHOLD) ||
+    (await isSfuEnabled(prisma, roomId));
+  if (!wanted) return false;
+
+  const supported = members.every((id) =>
+    registry.getLocal(roomId, id)?.capabilities.includes("sfu")
+  );
+  if (!supported) {
+    console.log(
+      `[SFU] Room ${roomId} stays in the mesh: not every participant can use the SFU`
+    );
+  }
+  return supported;
+}
+
+// Deliver a chat message to one participant only, echoing it to the sender.
+// Hosts may message participants even when private chat is turned off.
+async function sendPrivateMessage(
+  roomId: string,
+  ws: WSContext,
+  to: string,
+  text: string,
+  prisma: PrismaClient
+) {
+  const from = ws.participantId;
+
+  if (ws.role !== "host" && !(await isPrivateChatEnabled(prisma, roomId))) {
+    sendError(ws, "forbidden", "Private chat is disabled in this room");
+    return;
+  }
+
+  if (!(await registry.members(roomId)).includes(to)) {
+    sendError(ws, "not-found", "That participant is no longer in the room");
+    return;
+  }
+
+  // Recorded so only the recipient's identity sees it in history later
+  const recipient =
+    registry.getLocal(roomId, to) ?? (await findIdentity(prisma, roomId, to));
+  const chat = await saveChatMessage(prisma, roomId, ws, text, {
+    participantId: to,
+    userId: recipient?.userId ?? null,
+    guestId: recipient?.guestId ?? null,
+  });
+  await registry.sendTo(roomId, to, { type: "chat", ...chat });
+  send(ws, { type: "chat", ...chat });
+  console.log(`[Chat] Forwarding private message from ${from} to ${to}`);
+}
+
+async function addHost(roomId: string, ws: WSContext) {
+  await registry.add(hostsRoom(roomId), ws);
+  // Everyone already waiting knocks again so this host sees them
+  await registry.broadcast(lobbyRoom(roomId), { type: "lobby-waiting" });
+}
+
+async function removeHost(roomId: string, participantId: string) {
+  if (registry.getLocal(hostsRoom(roomId), participantId)) {
+    await registry.remove(hostsRoom(roomId), participantId);
+  }
+}
+
+// Park a joiner in the lobby until a host decides. The lobby entry handles
+// lobby messages itself before forwarding them to the socket, so admit and
+// deny take effect on the node holding the socket wherever the host is.
+async function holdInLobby(
+  roomId: string,
+  ws: WSContext,
+  maxParticipants: number,
+  prisma: PrismaClient
+) {
+  const from = ws.participantId;
+
+  const previous = registry.getLocal(lobbyRoom(roomId), from);
+  const previousSocket = previous && waitingSockets.get(previous);
+  if (previousSocket && previousSocket !== ws) {
+    previousSocket.close(CloseCode.REPLACED, "Knocked again elsewhere");
+  }
+
+  const onMessage = async (message: ServerMessage) => {
+    switch (message.type) {
+      case "lobby-waiting":
+        send(ws, message);
+        await registry.broadcast(hostsRoom(roomId), {
+          type: "knock",
+          from,
+          name: ws.name,
+        });
+        break;
+
+      case "lobby-admitted":
+      case "lobby-denied":
+        // Another host may have decided first
+        if (!(await leaveLobby(roomId, from))) break;
+        send(ws, message);
+        if (message.type === "lobby-admitted") {
+          await enterRoom(roomId, ws, maxParticipants, prisma);
+        } else {
+          ws.close(CloseCode.LOBBY_DENIED, "Denied by the host");
+        }
+        break;
+
+      default:
+        send(ws, message);
+    }
+  };
+
+  const entry: WSContext = {
+    ...ws,
+    get readyState() {
+      return ws.readyState;
+    },
+    // Every type is accepted here; forwarding checks the socket's own
+    capabilities: [...CAPABILITIES],
+    send: (data) => {
+      onMessage(JSON.parse(data)).catch((error) => {
+        console.error(`[Lobby] Failed to handle message for ${from}:`, error);
+      });
+    },
+  };
+  waitingSockets.set(entry, ws);
+
+  await registry.add(lobbyRoom(roomId), entry);
+  console.log(`[Lobby] ${from} is waiting in room ${roomId}`);
+  send(entry, { type: "lobby-waiting" });
+}
+
+async function leaveLobby(roomId: string, participantId: string) {
+  if (!(await registry.remove(lobbyRoom(roomId), participantId))) {
+    return false;
+  }
+  await registry.broadcast(hostsRoom(roomId), {
+    type: "lobby-left",
+    from: participantId,
+  });
+  return true;
+}
+
+// Hand an existing slot to a reconnecting socket without peers noticing.
+// `current` is either the buffering placeholder of a dropped socket or a
+// socket the server has not yet noticed is dead. Without it the session is
+// held by another node, which hands it over once we register the socket;
+// the token route already tied the participant id to this identity.
+async function resumeSession(
+  roomId: string,
+  ws: WSContext,
+  current: WSContext | undefined,
+  prisma: PrismaClient
+) {
+  const from = ws.participantId;
+
+  if (
+    current &&
+    (current.userId !== ws.userId || current.guestId !== ws.guestId)
+  ) {
+    console.warn(`[Resume] Identity mismatch for ${from} in room ${roomId}`);
+    sendError(ws, "conflict", "This participant id is already in use");
+    return;
+  }
+
+  const key = sessionKey(roomId, from);
+  const suspended = suspendedSessions.get(key);
+  if (suspended) {
+    clearTimeout(suspended.timer);
+    suspendedSessions.delete(key);
+  }
+
+  // Sent before taking over the slot, so changes made meanwhile land in
+  // the old session's buffer and are replayed after the snapshot
+  const snapshot = await roomSnapshot(
+    roomId,
+    ws,
+    sfu.isForwarding(roomId) ? "sfu" : "mesh",
+    prisma
+  );
+  const profiles = (await registry.profiles(roomId)).filter(
+    (profile) => profile.id !== from
+  );
+  console.log(
+    `[Resume] ${from} resumed in room ${roomId}${
+      current ? "" : " from another node"
+    }, replaying ${suspended?.buffer.length ?? 0} messages`
+  );
+  send(ws, {
+    type: "participants",
+    participants: profiles.map((profile) => profile.id),
+    profiles,
+    version: PROTOCOL_VERSION,
+    capabilities: ws.capabilities,
+    resumed: true,
+    ...snapshot,
+  });
+
+  await registry.add(roomId, ws);
+  current?.close(CloseCode.REPLACED, "Session resumed elsewhere");
+  suspended?.buffer.forEach((data) => ws.send(data));
+
+  if (ws.role === "host") {
+    await addHost(roomId, ws);
+  }
+}
+
+// Called by a shared registry when a session resumed on another node. The
+// session ends here without peers noticing; what it buffered moves along.
+export function handOverSession(roomId: string, ws: WSContext) {
+  const key = sessionKey(roomId, ws.participantId);
+  const suspended = suspendedSessions.get(key);
+  if (suspended) {
+    clearTimeout(suspended.timer);
+    suspendedSessions.delete(key);
+  }
+  ws.close(CloseCode.REPLACED, "Session resumed elsewhere");
+  sfu.leave(roomId, ws.participantId);
+  return suspended?.buffer ?? [];
+}
+
+// Called when a socket closes. Rather than removing the participant right
+// away, park a placeholder that buffers its messages and give it
+// RESUME_GRACE_MS to reconnect.
+export async function suspendRoomConnection(roomId: string, ws: WSContext) {
+  const participantId = ws.participantId;
+
+  // Waiting participants simply knock again when they reconnect
+  if (isWaiting(roomId, ws)) {
+    await leaveLobby(roomId, participantId);
+    return;
+  }
+
+  // Nothing to keep if the participant left, was kicked or was replaced
+  if (registry.getLocal(roomId, participantId) !== ws) return;
+
+  const buffer: string[] = [];
+  const placeholder: WSContext = {
+    ...ws,
+    readyState: 1,
+    send: (data) => {
+      buffer.push(data);
+      if (buffer.length > MAX_BUFFERED_MESSAGES) buffer.shift();
+    },
+    close: () => {},
+  };
+  await registry.add(roomId, placeholder);
+
+  const key = sessionKey(roomId, participantId);
+  const timer = setTimeout(() => {
+    suspendedSessions.delete(key);
+    if (registry.getLocal(roomId, participantId) !== placeholder) return;
+
+    console.log(`[Resume] Grace period over for ${participantId}`);
+    cleanupRoomConnection(roomId, participantId).catch((error) => {
+      console.error(`Failed to clean up ${participantId}:`, error);
+    });
+  }, RESUME_GRACE_MS);
+  suspendedSessions.set(key, { placeholder, buffer, timer });
+}
+
+// Clients drop a spotlight on participant-left by themselves; late joiners
+// must not be handed one for someone who is gone
+async function releaseSpotlight(roomId: string, participantId: string) {
+  if ((await registry.spotlight(roomId)) === participantId) {
+    await registry.setSpotlight(roomId, null);
+  }
+}
+
 // Cleanup function for when WebSocket closes
-export function cleanupRoomConnection(roomId: string, participantId: string) {
-  const connections = roomConnections.get(roomId);
-  if (connections) {
-    connections.delete(participantId);
+export async function cleanupRoomConnection(
+  roomId: string,
+  participantId: string
+) {
+  await removeHost(roomId, participantId);
 
+  // Already gone if the participant left or was kicked
+  if (await registry.remove(roomId, participantId)) {
+    await attendance?.left(roomId, participantId, "disconnected");
+    await registry.lowerHand(roomId, participantId);
+    await releaseSpotlight(roomId, participantId);
+    sfu.leave(roomId, participantId);
     // Notify remaining participants
-    connections.forEach((otherWs) => {
-      if (otherWs.readyState === 1) {
-        otherWs.send(
-          JSON.stringify({
-            type: "participant-left",
-            from: participantId,
-          })
-        );
-      }
+    await registry.broadcast(roomId, {
+      type: "participant-left",
+      from: participantId,
     });
+  }
+}
 
-    if (connections.size === 0) {
-      roomConnections.delete(roomId);
-    }
+// Closes attendance left open by a backend node that stopped without
+// recording the leaves. Participants a running node still holds stay open.
+export async function closeStaleAttendance() {
+  await attendance?.closeStale(async (roomId, participantId) =>
+    (await registry.members(roomId)).includes(participantId)
+  );
+}
+
+// Called by a shared registry for members of a backend node that died.
+// Pseudo-room members only need to be dropped from their pseudo-room.
+export async function removeLostParticipant(
+  registryRoomId: string,
+  participantId: string
+) {
+  const [roomId, pseudoRoom] = registryRoomId.split("#");
+  if (pseudoRoom === "lobby") {
+    await leaveLobby(roomId, participantId);
+  } else if (pseudoRoom === "hosts") {
+    await registry.remove(registryRoomId, participantId);
+  } else {
+    await cleanupRoomConnection(roomId, participantId);
   }
 }
@@ -0,0 +1,64 @@
+// app/api/guest/route.ts
+
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import {
+  GUEST_COOKIE,
+  createGuestIdentity,
+  normalizeGuestName,
+  signGuestIdentity,
+  verifyGuestIdentity,
+} from "@/lib/guest";
+
+// The guest identity of this browser session, if one was issued
+export async function GET() {
+  try {
+    const guest = verifyGuestIdentity(
+      (await cookies()).get(GUEST_COOKIE)?.value
+    );
+    return NextResponse.json({ guest });
+  } catch (error) {
+    console.error("Error reading guest identity:", error);
+    return NextResponse.json(
+      { error: "Failed to read guest identity" },
+      { status: 500 }
+    );
+  }
+}
+
+// Issue a guest identity with the chosen display name. A guest who picks a
+// new name keeps the same id.
+export async function POST(request: Request) {
+  try {
+    const { name } = await request.json();
+    const displayName = normalizeGuestName(name);
+
+    if (!displayName) {
+      return NextResponse.json(
+        { error: "Enter a name of up to 40 characters" },
+        { status: 400 }
+      );
+    }
+
+    const cookieStore = await cookies();
+    const existing = verifyGuestIdentity(cookieStore.get(GUEST_COOKIE)?.value);
+    const guest = existing
+      ? { ...existing, name: displayName }
+      : createGuestIdentity(displayName);
+
+    cookieStore.set(GUEST_COOKIE, signGuestIdentity(guest), {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: "/",
+    });
+
+    return NextResponse.json({ guest });
+  } catch (error) {
+    console.error("Error issuing guest identity:", error);
+    return NextResponse.json(
+      { error: "Failed to issue guest identity" },
+      { status: 500 }
+    );
+  }
+}
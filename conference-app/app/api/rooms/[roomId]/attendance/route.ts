@@ -0,0 +1,58 @@
+// app/api/rooms/[roomId]/attendance/route.ts
+
+import { NextResponse } from "next/server";
+import { auth } from "@/app/api/auth/[...nextauth]/route";
+import { prisma } from "@/lib/prisma";
+import { attendanceToCsv, summarizeAttendance } from "@/lib/attendance";
+
+// Host-only attendance report, as JSON or as CSV with `?format=csv`
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { roomId } = await params;
+
+    const room = await prisma.room.findUnique({ where: { roomId } });
+
+    if (!room) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    if (room.hostId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Only the host can view attendance" },
+        { status: 403 }
+      );
+    }
+
+    const records = await prisma.participation.findMany({
+      where: { roomId },
+      orderBy: { joinedAt: "asc" },
+    });
+    const attendance = summarizeAttendance(records);
+
+    if (new URL(request.url).searchParams.get("format") === "csv") {
+      return new NextResponse(attendanceToCsv(attendance), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="attendance-${roomId}.csv"`,
+        },
+      });
+    }
+
+    return NextResponse.json({ roomId, attendance });
+  } catch (error) {
+    console.error("Error fetching attendance:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch attendance" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,151 @@
+// app/api/rooms/[roomId]/passcode/route.ts
+
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { auth } from "@/app/api/auth/[...nextauth]/route";
+import { prisma } from "@/lib/prisma";
+import {
+  checkRoomPasscode,
+  hashPasscode,
+  passcodeRemembered,
+  rememberPasscode,
+  validateNewPasscode,
+} from "@/lib/passcode";
+import { GUEST_COOKIE, verifyGuestIdentity } from "@/lib/guest";
+
+// Whether this browser already entered the room's passcode, so the room
+// page can skip asking for it
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+
+    const room = await prisma.room.findUnique({ where: { roomId } });
+
+    if (!room || !room.isActive) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      verified:
+        !room.passcodeHash ||
+        (await passcodeRemembered(roomId, room.passcodeHash)),
+    });
+  } catch (error) {
+    console.error("Error checking passcode:", error);
+    return NextResponse.json(
+      { error: "Failed to check passcode" },
+      { status: 500 }
+    );
+  }
+}
+
+// Check a passcode before the room page asks for camera access. A correct
+// passcode is remembered, so the token route does not need it again.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    const { passcode } = await request.json();
+
+    const room = await prisma.room.findUnique({ where: { roomId } });
+
+    if (!room || !room.isActive) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    if (!room.passcodeHash) {
+      return NextResponse.json({ ok: true });
+    }
+
+    const session = await auth();
+    const identity =
+      session?.user?.id ??
+      verifyGuestIdentity((await cookies()).get(GUEST_COOKIE)?.value)?.id ??
+      null;
+
+    const check = await checkRoomPasscode(
+      room.passcodeHash,
+      passcode,
+      roomId,
+      request,
+      identity
+    );
+    if (!check.ok) {
+      return NextResponse.json(
+        { error: check.error },
+        {
+          status: check.status,
+          headers: check.retryAfter
+            ? { "Retry-After": String(check.retryAfter) }
+            : undefined,
+        }
+      );
+    }
+
+    await rememberPasscode(roomId, room.passcodeHash);
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    console.error("Error verifying passcode:", error);
+    return NextResponse.json(
+      { error: "Failed to verify passcode" },
+      { status: 500 }
+    );
+  }
+}
+
+// Host sets a new passcode, or removes it with `null`
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { roomId } = await params;
+    const { passcode } = await request.json();
+
+    const room = await prisma.room.findUnique({ where: { roomId } });
+
+    if (!room) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    if (room.hostId !== session.user.id) {
+      return NextResponse.json(
+        { error: "Only the host can change the passcode" },
+        { status: 403 }
+      );
+    }
+
+    if (passcode !== null) {
+      const invalid = validateNewPasscode(passcode);
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+      }
+    }
+
+    await prisma.room.update({
+      where: { roomId },
+      data: {
+        passcodeHash: passcode === null ? null : await hashPasscode(passcode),
+      },
+    });
+
+    return NextResponse.json({ passcodeRequired: passcode !== null });
+  } catch (error) {
+    console.error("Error updating passcode:", error);
+    return NextResponse.json(
+      { error: "Failed to update passcode" },
+      { status: 500 }
+    );
+  }
+}
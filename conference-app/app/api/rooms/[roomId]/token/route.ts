@@ -0,0 +1,124 @@
+// app/api/rooms/[roomId]/token/route.ts
+
+import { NextResponse } from "next/server";
+import { cookies } from "next/headers";
+import { auth } from "@/app/api/auth/[...nextauth]/route";
+import { prisma } from "@/lib/prisma";
+import { signJoinToken } from "@/lib/join-token";
+import {
+  checkRoomPasscode,
+  passcodeRemembered,
+  rememberPasscode,
+} from "@/lib/passcode";
+import { GUEST_COOKIE, verifyGuestIdentity } from "@/lib/guest";
+import { ParticipantIdSchema } from "@shared/protocol";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ roomId: string }> }
+) {
+  try {
+    const { roomId } = await params;
+    const { participantId, passcode } = await request.json();
+
+    // Others address their messages to this id, and the signaling protocol
+    // refuses ids outside these bounds
+    if (!ParticipantIdSchema.safeParse(participantId).success) {
+      return NextResponse.json(
+        { error: "A valid participantId is required" },
+        { status: 400 }
+      );
+    }
+
+    const room = await prisma.room.findUnique({ where: { roomId } });
+
+    if (!room || !room.isActive) {
+      return NextResponse.json({ error: "Room not found" }, { status: 404 });
+    }
+
+    const session = await auth();
+    const userId = session?.user?.id ?? null;
+    const isHost = userId !== null && userId === room.hostId;
+
+    // Visitors who are not signed in join with their guest identity
+    let guest = null;
+    if (!userId) {
+      if (!room.allowGuests) {
+        return NextResponse.json(
+          { error: "Sign in to join this room", signInRequired: true },
+          { status: 401 }
+        );
+      }
+      guest = verifyGuestIdentity((await cookies()).get(GUEST_COOKIE)?.value);
+      if (!guest) {
+        return NextResponse.json(
+          { error: "Choose a display name to join", guestRequired: true },
+          { status: 401 }
+        );
+      }
+    }
+
+    // Hosts never need the passcode for their own room, and visitors who
+    // entered it recently are not asked or counted again
+    if (
+      room.passcodeHash &&
+      !isHost &&
+      !(await passcodeRemembered(roomId, room.passcodeHash))
+    ) {
+      const check = await checkRoomPasscode(
+        room.passcodeHash,
+        passcode,
+        roomId,
+        request,
+        userId ?? guest?.id ?? null
+      );
+      if (!check.ok) {
+        return NextResponse.json(
+          { error: check.error, passcodeRequired: true },
+          {
+            status: check.status,
+            headers: check.retryAfter
+              ? { "Retry-After": String(check.retryAfter) }
+              : undefined,
+          }
+        );
+      }
+      await rememberPasscode(roomId, room.passcodeHash);
+    }
+
+    // Participant ids are visible to everyone in the room, so an id that
+    // already joined as someone else must not be handed to this visitor
+    const guestId = guest?.id ?? null;
+    const previous = await prisma.participation.findFirst({
+      where: { roomId, participantId },
+      select: { userId: true, guestId: true },
+    });
+    if (
+      previous &&
+      (previous.userId !== userId || previous.guestId !== guestId)
+    ) {
+      return NextResponse.json(
+        { error: "This participant id belongs to someone else" },
+        { status: 409 }
+      );
+    }
+
+    const token = signJoinToken({
+      roomId,
+      participantId,
+      userId,
+      guestId,
+      name: guest?.name ?? session?.user?.name ?? "Guest",
+      image: session?.user?.image ?? null,
+      role: isHost ? "host" : "participant",
+    });
+
+    return NextResponse.json({ token });
+  } catch (error) {
+    console.error("Error issuing join token:", error);
+    return NextResponse.json(
+      { error: "Failed to issue join token" },
+      { status: 500 }
+    );
+  }
+}
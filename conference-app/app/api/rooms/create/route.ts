@@ -4,8 +4,10 @@ import { NextResponse } from "next/server";
 import { auth } from "@/app/api/auth/[...nextauth]/route";
 import { prisma } from "@/lib/prisma";
 import { nanoid } from "nanoid";
+import { hashPasscode, validateNewPasscode } from "@/lib/passcode";
+import { validateMaxParticipants } from "@/lib/room-limits";
 
-export async function POST() {
+export async function POST(request: Request) {
   try {
     const session = await auth();
 
@@ -16,6 +18,31 @@ export async function POST() {
       );
     }
 
+    // Room settings are optional
+    const {
+      lobbyEnabled,
+      passcode,
+      allowGuests,
+      relayOnly,
+      sfuEnabled,
+      maxParticipants,
+    } = await request.json().catch(() => ({}));
+
+    if (passcode) {
+      const invalid = validateNewPasscode(passcode);
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+      }
+    }
+
+    // Left out, the signaling server's default applies
+    if (maxParticipants != null) {
+      const invalid = validateMaxParticipants(maxParticipants);
+      if (invalid) {
+        return NextResponse.json({ error: invalid }, { status: 400 });
+      }
+    }
+
     // Generate unique roomId
     const roomId = nanoid(12);
 
@@ -25,6 +52,12 @@ export async function POST() {
         roomId,
         hostId: session.user.id,
         isActive: true,
+        lobbyEnabled: lobbyEnabled === true,
+        passcodeHash: passcode ? await hashPasscode(passcode) : null,
+        allowGuests: allowGuests !== false,
+        relayOnly: relayOnly === true,
+        sfuEnabled: sfuEnabled === true,
+        maxParticipants: maxParticipants ?? null,
       },
     });
 
@@ -5,6 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import { Copy, Check } from "lucide-react";
 import Link from "next/link";
+import { MAX_PARTICIPANTS_LIMIT } from "@/lib/room-limits";
 
 export default function CreateRoomPage() {
   const [isLoading, setIsLoading] = useState(false);
@@ -12,6 +13,12 @@ export default function CreateRoomPage() {
   const [roomId, setRoomId] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [lobbyEnabled, setLobbyEnabled] = useState(false);
+  const [passcode, setPasscode] = useState("");
+  const [allowGuests, setAllowGuests] = useState(true);
+  const [relayOnly, setRelayOnly] = useState(false);
+  const [sfuEnabled, setSfuEnabled] = useState(false);
+  const [maxParticipants, setMaxParticipants] = useState("");
 
   const handleCreateRoom = async () => {
     setIsLoading(true);
@@ -20,6 +27,15 @@ export default function CreateRoomPage() {
     try {
       const response = await fetch("/api/rooms/create", {
         method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          lobbyEnabled,
+          allowGuests,
+          relayOnly,
+          sfuEnabled,
+          passcode: passcode || undefined,
+          maxParticipants: maxParticipants ? Number(maxParticipants) : undefined,
+        }),
       });
 
       if (!response.ok) {
@@ -62,6 +78,54 @@ export default function CreateRoomPage() {
                   {error}
                 </div>
               )}
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={lobbyEnabled}
+                  onChange={(e) => setLobbyEnabled(e.target.checked)}
+                />
+                Hold joiners in a waiting room until you admit them
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={allowGuests}
+                  onChange={(e) => setAllowGuests(e.target.checked)}
+                />
+                Let people join as guests without signing in
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={relayOnly}
+                  onChange={(e) => setRelayOnly(e.target.checked)}
+                />
+                Relay all media through the server to hide participants' IP addresses
+              </label>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={sfuEnabled}
+                  onChange={(e) => setSfuEnabled(e.target.checked)}
+                />
+                Send everyone's video through the server, for large meetings
+              </label>
+              <input
+                type="password"
+                value={passcode}
+                onChange={(e) => setPasscode(e.target.value)}
+                placeholder="Passcode (optional)"
+                className="w-full bg-muted rounded-md px-3 py-2 text-sm"
+              />
+              <input
+                type="number"
+                min={2}
+                max={MAX_PARTICIPANTS_LIMIT}
+                value={maxParticipants}
+                onChange={(e) => setMaxParticipants(e.target.value)}
+                placeholder={`Participant limit, up to ${MAX_PARTICIPANTS_LIMIT} (optional)`}
+                className="w-full bg-muted rounded-md px-3 py-2 text-sm"
+              />
               <Button
                 size="lg"
                 className="w-full"
@@ -1,18 +1,44 @@
 "use client";
-import { signIn } from "next-auth/react";
+import { getProviders, signIn } from "next-auth/react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader } from "@/components/ui/card";
 import Link from "next/link";
 import { useSearchParams } from "next/navigation";
-import { Suspense } from "react";
+import { Suspense, useEffect, useState } from "react";
+
+type ClientSafeProvider = NonNullable<
+  Awaited<ReturnType<typeof getProviders>>
+>[string];
 
 function LoginContent() {
   const searchParams = useSearchParams();
   const error = searchParams.get("error");
+  const callbackUrl = searchParams.get("callbackUrl") || "/create-room";
+
+  const [providers, setProviders] = useState<ClientSafeProvider[] | null>(null);
+  const [email, setEmail] = useState("");
+  const [devName, setDevName] = useState("");
+
+  // Only providers configured on the server are listed
+  useEffect(() => {
+    getProviders()
+      .then((result) => setProviders(Object.values(result ?? {})))
+      .catch((err) => {
+        console.error("Failed to load sign-in providers:", err);
+        setProviders([]);
+      });
+  }, []);
 
-  const handleGoogleSignIn = async () => {
-    await signIn("google", { callbackUrl: "/create-room" });
-  };
+  const oauthProviders =
+    providers?.filter(
+      (provider) => provider.type === "oauth" || provider.type === "oidc"
+    ) ?? [];
+  const emailProvider = providers?.find(
+    (provider) => provider.type === "email"
+  );
+  const devProvider = providers?.find(
+    (provider) => provider.type === "credentials"
+  );
 
   return (
     <main className="min-h-screen bg-background flex items-center justify-center px-4">
@@ -26,9 +52,78 @@ function LoginContent() {
               Authentication failed. Please try again.
             </div>
           )}
-          <Button className="w-full" size="lg" onClick={handleGoogleSignIn}>
-            Sign in with Google
-          </Button>
+          {providers === null && (
+            <p className="text-sm text-muted-foreground text-center">
+              Loading sign-in options...
+            </p>
+          )}
+          {providers?.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center">
+              No sign-in providers are configured
+            </p>
+          )}
+          {oauthProviders.map((provider) => (
+            <Button
+              key={provider.id}
+              className="w-full"
+              size="lg"
+              onClick={() => signIn(provider.id, { callbackUrl })}
+            >
+              Sign in with {provider.name}
+            </Button>
+          ))}
+          {emailProvider && (
+            <form
+              className="space-y-2"
+              onSubmit={(e) => {
+                e.preventDefault();
+                signIn(emailProvider.id, { email, callbackUrl });
+              }}
+            >
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+                required
+                className="w-full bg-muted rounded-md px-3 py-2 text-sm"
+              />
+              <Button
+                type="submit"
+                variant="outline"
+                className="w-full"
+                size="lg"
+              >
+                Email me a sign-in link
+              </Button>
+            </form>
+          )}
+          {devProvider && (
+            <form
+              className="space-y-2 border-t border-border pt-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                signIn(devProvider.id, { name: devName, callbackUrl });
+              }}
+            >
+              <input
+                type="text"
+                value={devName}
+                onChange={(e) => setDevName(e.target.value)}
+                placeholder="Any name (development only)"
+                required
+                className="w-full bg-muted rounded-md px-3 py-2 text-sm"
+              />
+              <Button
+                type="submit"
+                variant="outline"
+                className="w-full"
+                size="lg"
+              >
+                {devProvider.name}
+              </Button>
+            </form>
+          )}
           <p className="text-sm text-muted-foreground text-center">
             Authentication required only to create rooms
           </p>
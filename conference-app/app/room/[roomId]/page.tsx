@@ -1,28 +1,75 @@
 "use client";
 
 import { useState, useEffect, useMemo, useRef } from "react";
-import { useSession } from "next-auth/react";
-import { VideoGrid } from "@/components/video-grid";
+import { signIn, useSession } from "next-auth/react";
+import { VideoGrid, type VideoLayout } from "@/components/video-grid";
 import { ControlBar } from "@/components/control-bar";
 import { ParticipantList } from "@/components/participant-list";
 import { Notification } from "@/components/notification";
+import { PasscodeSettings } from "@/components/passcode-settings";
+import { ChatPanel } from "@/components/chat-panel";
+import { FileTransfers } from "@/components/file-transfers";
+import { ScreenShareSettings } from "@/components/screen-share-settings";
+import type { ScreenShare } from "@/components/screen-share-tile";
 import { useMediaStream } from "@/hooks/useMediaStream";
 import { useWebRTC } from "@/hooks/useWebRTC";
+import { useActiveSpeaker } from "@/hooks/useActiveSpeaker";
+import { useFileTransfer } from "@/hooks/useFileTransfer";
 import { nanoid } from "nanoid";
 import { useParams, useRouter } from "next/navigation";
 
+// "Ada Lovelace" -> "AL"
+function initials(name?: string | null) {
+  return (name ?? "")
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
 export default function RoomPage({ params }: { params: { roomId: string } }) {
   const router = useRouter();
-  const { data: session } = useSession();
+  const { data: session, status: sessionStatus } = useSession();
   const [showParticipants, setShowParticipants] = useState(() => {
     if (typeof window !== "undefined") {
       return window.innerWidth >= 768; // md breakpoint
     }
     return false; // Default to closed (mobile-first)
   });
+  const [showChat, setShowChat] = useState(false);
+  // Chat messages seen while the chat panel was open
+  const [readChatCount, setReadChatCount] = useState(0);
+  // Participant the chat is privately addressed to; null for everyone
+  const [chatRecipient, setChatRecipient] = useState<string | null>(null);
+  const [showFiles, setShowFiles] = useState(false);
+  const [layout, setLayout] = useState<VideoLayout>("grid");
+  // Featured in our own layout only; null when nobody is pinned
+  const [pinnedId, setPinnedId] = useState<string | null>(null);
+  // Participant shared files go to; null for everyone
+  const [fileRecipient, setFileRecipient] = useState<string | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
   const [isHost, setIsHost] = useState(false);
   const [roomValid, setRoomValid] = useState<boolean | null>(null);
   const [mediaRequested, setMediaRequested] = useState(false);
+  const [roomFullLimit, setRoomFullLimit] = useState<number | null>(null);
+  const [passcodeRequired, setPasscodeRequired] = useState(false);
+  // This browser entered the passcode recently, so it is not asked again
+  const [passcodeVerified, setPasscodeVerified] = useState(false);
+  // Passcode the server accepted; sent again with every join token request
+  const [passcode, setPasscode] = useState<string | null>(null);
+  const [passcodeInput, setPasscodeInput] = useState("");
+  const [passcodeError, setPasscodeError] = useState<string | null>(null);
+  const [isCheckingPasscode, setIsCheckingPasscode] = useState(false);
+  const [allowGuests, setAllowGuests] = useState(true);
+  // undefined while loading; null when this browser has no guest identity
+  const [guest, setGuest] = useState<
+    { id: string; name: string } | null | undefined
+  >(undefined);
+  const [guestNameInput, setGuestNameInput] = useState("");
+  const [guestError, setGuestError] = useState<string | null>(null);
+  const [isSavingGuest, setIsSavingGuest] = useState(false);
   const [notifications, setNotifications] = useState<
     Array<{
       id: string;
@@ -31,18 +78,30 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     }>
   >([]);
   const roomId = useParams<{ roomId: string }>();
-  // Generate or retrieve participant ID
+  // Generate or retrieve participant ID. The server refuses an id that
+  // joined as someone else, so each identity keeps its own, e.g. after a
+  // guest signs in.
+  const identityKey = session?.user?.id ?? guest?.id ?? "visitor";
   const participantId = useMemo(() => {
     if (typeof window !== "undefined") {
-      let id = sessionStorage.getItem(`participant-${roomId}`);
+      const key = `participant-${roomId.roomId}-${identityKey}`;
+      let id = sessionStorage.getItem(key);
       if (!id) {
         id = nanoid(10);
-        sessionStorage.setItem(`participant-${roomId}`, id);
+        sessionStorage.setItem(key, id);
       }
       return id;
     }
     return nanoid(10);
-  }, [roomId]);
+  }, [roomId.roomId, identityKey]);
+
+  const isGuestVisitor = sessionStatus === "unauthenticated";
+  const signInRequired = isGuestVisitor && !allowGuests;
+  const needsGuestName = isGuestVisitor && allowGuests && guest === null;
+
+  // Hosts get into their own room without the passcode
+  const needsPasscode =
+    passcodeRequired && !isHost && !passcodeVerified && passcode === null;
 
   // Create a ref to store the broadcast function
   const broadcastAudioToggleRef = useRef<((enabled: boolean) => void) | null>(
@@ -60,6 +119,9 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     getMediaStream,
     error: mediaError,
     isLoading: mediaLoading,
+    screenStream,
+    startScreenShare,
+    stopScreenShare,
   } = useMediaStream({
     options: {
       audio: true,
@@ -74,6 +136,16 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     },
   });
 
+  // Peer-to-peer file sharing over each peer connection's data channel
+  const {
+    transfers,
+    sendFile,
+    cancelTransfer,
+    dismissTransfer,
+    attachChannel,
+    detachChannel,
+  } = useFileTransfer();
+
   // Setup WebRTC
   const {
     participants: remoteParticipants,
@@ -83,32 +155,54 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     kickParticipant,
     muteParticipant,
     broadcastAudioToggle,
+    lobbyStatus,
+    waitingParticipants,
+    admitParticipant,
+    denyParticipant,
+    admitAllParticipants,
+    chatMessages,
+    sendChatMessage,
+    privateChatEnabled,
+    setPrivateChat,
+    screenShareHostsOnly,
+    setScreenShareHostsOnly,
+    spotlightId,
+    setSpotlight,
+    raisedHands,
+    reactions,
+    setHandRaised,
+    lowerHand,
+    sendReaction,
+    getAudioLevels,
   } = useWebRTC({
     roomId: roomId.roomId,
     participantId,
     localStream,
-    enabled: roomValid === true && localStream !== null,
-    onParticipantJoined: (joinedParticipantId) => {
+    screenStream,
+    enabled:
+      roomValid === true &&
+      localStream !== null &&
+      !signInRequired &&
+      !needsGuestName &&
+      !needsPasscode,
+    passcode: passcode ?? undefined,
+    onParticipantJoined: (joinedParticipantId, profile) => {
       // Add notification when participant joins
       const notificationId = nanoid();
       setNotifications((prev) => [
         ...prev,
         {
           id: notificationId,
-          message: "A participant joined the room",
+          message: `${profile?.name ?? "A participant"} joined the room`,
           type: "success",
         },
       ]);
     },
-    onParticipantLeft: (leftParticipantId) => {
+    onParticipantLeft: (leftParticipantId, profile) => {
+      detachChannel(leftParticipantId);
+
       // Add notification when participant leaves
-      const participantIndex = remoteParticipants.findIndex(
-        (p) => p.id === leftParticipantId
-      );
-      const participantName =
-        participantIndex >= 0
-          ? `Guest ${participantIndex + 1}`
-          : "A participant";
+      const participantName = profile?.name ?? "A participant";
 
       const notificationId = nanoid();
       setNotifications((prev) => [
@@ -168,13 +262,76 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
         ]);
       }
     },
+    onRoomFull: (maxParticipants) => {
+      // Release the camera while the user decides whether to retry
+      stopStream();
+      setRoomFullLimit(maxParticipants);
+    },
+    onDataChannel: attachChannel,
+    onHandLowered: () => {
+      const notificationId = nanoid();
+      setNotifications((prev) => [
+        ...prev,
+        {
+          id: notificationId,
+          message: "The host lowered your hand",
+          type: "info",
+        },
+      ]);
+    },
+  });
+
+  const { speakingIds, dominantSpeakerId } = useActiveSpeaker({
+    localStream,
+    localId: "local",
+    getRemoteAudioLevels: getAudioLevels,
+    enabled: isConnected,
   });
 
+  // Our own participant id is "local" in the UI
+  const toLocalId = (id: string) => (id === participantId ? "local" : id);
+  const isHandRaised = raisedHands.some((h) => h.id === participantId);
+  const spotlightLocalId = spotlightId && toLocalId(spotlightId);
+  const canShareScreen = isHost || !screenShareHostsOnly;
+
   // Update the broadcast ref when the function is available
   useEffect(() => {
     broadcastAudioToggleRef.current = broadcastAudioToggle;
   }, [broadcastAudioToggle]);
 
+  useEffect(() => {
+    if (showChat) {
+      setReadChatCount(chatMessages.length);
+    }
+  }, [showChat, chatMessages.length]);
+
+  // Our own messages never count as unread
+  const unreadChatCount = chatMessages
+    .slice(readChatCount)
+    .filter((message) => message.from !== participantId).length;
+
+  // The host restricted sharing while we were presenting
+  useEffect(() => {
+    if (screenStream && !canShareScreen) {
+      stopScreenShare();
+      setNotifications((prev) => [
+        ...prev,
+        {
+          id: nanoid(),
+          message: "The host allowed only hosts to share their screen",
+          type: "warning",
+        },
+      ]);
+    }
+  }, [screenStream, canShareScreen, stopScreenShare]);
+
+  // Release the camera once the host has turned us away
+  useEffect(() => {
+    if (lobbyStatus === "denied") {
+      stopStream();
+    }
+  }, [lobbyStatus, stopStream]);
+
   // Validate room
   useEffect(() => {
     async function validateRoom() {
@@ -188,7 +345,15 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
         });
 
         const data = await response.json();
+        if (data.passcodeRequired === true) {
+          const verified = await fetch(`/api/rooms/${roomId.roomId}/passcode`)
+            .then((response) => response.json())
+            .catch(() => null);
+          setPasscodeVerified(verified?.verified === true);
+        }
         setRoomValid(data.valid);
+        setPasscodeRequired(data.passcodeRequired === true);
+        setAllowGuests(data.room?.allowGuests !== false);
 
         if (data.valid && data.room) {
           // Check if current user is the host
@@ -207,19 +372,42 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     validateRoom();
   }, [roomId, session, router]);
 
+  // Visitors who are not signed in join under a guest identity
+  useEffect(() => {
+    if (!isGuestVisitor) return;
+
+    fetch("/api/guest")
+      .then((response) => response.json())
+      .then((data) => setGuest(data.guest ?? null))
+      .catch((error) => {
+        console.error("Failed to load guest identity:", error);
+        setGuest(null);
+      });
+  }, [isGuestVisitor]);
+
   // Combine local and remote participants
   const allParticipants = useMemo(() => {
+    const handRaised = (id: string) => raisedHands.some((h) => h.id === id);
+    const reactionsOf = (id: string) =>
+      reactions.filter((reaction) => reaction.participantId === id);
+
     const local = {
       id: "local",
-      name: session?.user?.name || "You",
+      name: session?.user?.name || guest?.name || "You",
       isMuted: !isMicEnabled,
       isHost,
-      avatar: session?.user?.name?.[0]?.toUpperCase() || "Y",
+      avatar: initials(session?.user?.name || guest?.name) || "Y",
+      image: session?.user?.image,
+      isGuest: !session?.user,
       stream: localStream || undefined,
       isCameraEnabled,
+      handRaised: handRaised(participantId),
+      reactions: reactionsOf(participantId),
+      isSpeaking: speakingIds.includes("local"),
+      isSpotlighted: spotlightLocalId === "local",
     };
 
-    const remote = remoteParticipants.map((p, index) => {
+    const remote = remoteParticipants.map((p) => {
       const videoTrack = p.stream
         ?.getVideoTracks()
         .find((track) => track.readyState !== "ended");
@@ -237,12 +425,19 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
 
       return {
         id: p.id,
-        name: `Guest ${index + 1}`,
+        name: p.profile?.name ?? "Guest",
         isMuted,
-        isHost: false,
-        avatar: `G${index + 1}`,
+        isHost: p.profile?.role === "host",
+        avatar: initials(p.profile?.name) || "G",
+        image: p.profile?.image,
+        isGuest: p.profile?.isGuest ?? true,
         stream: p.stream,
         isCameraEnabled: videoTrack?.enabled ?? false,
+        handRaised: handRaised(p.id),
+        reactions: reactionsOf(p.id),
+        connectionState: p.connectionState,
+        isSpeaking: speakingIds.includes(p.id),
+        isSpotlighted: spotlightLocalId === p.id,
       };
     });
 
@@ -254,8 +449,71 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     isCameraEnabled,
     isHost,
     session,
+    guest,
+    participantId,
+    raisedHands,
+    reactions,
+    speakingIds,
+    spotlightLocalId,
   ]);
 
+  const screenShares = useMemo(() => {
+    const shares: ScreenShare[] = remoteParticipants.flatMap((p) =>
+      p.screenStream
+        ? [
+            {
+              id: p.id,
+              name: p.profile?.name ?? "Guest",
+              stream: p.screenStream,
+            },
+          ]
+        : []
+    );
+    if (screenStream) {
+      shares.unshift({ id: "local", name: "You", stream: screenStream });
+    }
+    return shares;
+  }, [remoteParticipants, screenStream]);
+
+  const recipients = useMemo(
+    () =>
+      allParticipants
+        .filter((p) => p.id !== "local")
+        .map((p) => ({ id: p.id, name: p.name })),
+    [allParticipants]
+  );
+  const canMessagePrivately = privateChatEnabled || isHost;
+
+  // Show incoming files as soon as someone starts sending one
+  const receivingCount = transfers.filter(
+    (t) => t.direction === "receive"
+  ).length;
+  useEffect(() => {
+    if (receivingCount > 0) {
+      setShowFiles(true);
+    }
+  }, [receivingCount]);
+
+  useEffect(() => {
+    if (
+      fileRecipient !== null &&
+      !recipients.some((p) => p.id === fileRecipient)
+    ) {
+      setFileRecipient(null);
+    }
+  }, [fileRecipient, recipients]);
+
+  // Fall back to the whole room when the recipient leaves or the host turns
+  // private chat off
+  useEffect(() => {
+    if (
+      chatRecipient !== null &&
+      (!canMessagePrivately || !recipients.some((p) => p.id === chatRecipient))
+    ) {
+      setChatRecipient(null);
+    }
+  }, [chatRecipient, canMessagePrivately, recipients]);
+
   const handleLeaveRoom = () => {
     stopStream();
     disconnect();
@@ -271,6 +529,63 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     }
   };
 
+  const handleSubmitGuestName = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSavingGuest(true);
+    setGuestError(null);
+
+    try {
+      const response = await fetch("/api/guest", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name: guestNameInput }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setGuestError(data.error || "Failed to set your name");
+        return;
+      }
+      setGuest(data.guest);
+    } catch (err) {
+      console.error("Failed to create guest identity:", err);
+      setGuestError("Failed to set your name");
+    } finally {
+      setIsSavingGuest(false);
+    }
+  };
+
+  const handleSubmitPasscode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCheckingPasscode(true);
+    setPasscodeError(null);
+
+    try {
+      const response = await fetch(`/api/rooms/${roomId.roomId}/passcode`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passcode: passcodeInput }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        setPasscodeError(data.error || "Incorrect passcode");
+        return;
+      }
+      setPasscode(passcodeInput);
+    } catch (err) {
+      console.error("Failed to verify passcode:", err);
+      setPasscodeError("Failed to verify passcode");
+    } finally {
+      setIsCheckingPasscode(false);
+    }
+  };
+
+  const handleRetryJoin = () => {
+    setRoomFullLimit(null);
+    setMediaRequested(false);
+  };
+
   const removeNotification = (id: string) => {
     setNotifications((prev) => prev.filter((n) => n.id !== id));
   };
@@ -278,6 +593,7 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
   const handleParticipantKick = (participantId: string) => {
     if (participantId === "local") return; // Can't kick yourself
     kickParticipant(participantId);
+    detachChannel(participantId);
 
     const notificationId = nanoid();
     setNotifications((prev) => [
@@ -311,8 +627,31 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     }
   };
 
+  const handleSendFile = async (file: File) => {
+    setFileError(null);
+    setShowFiles(true);
+    setFileError(await sendFile(file, fileRecipient ?? undefined));
+  };
+
+  const handleToggleScreenShare = () => {
+    if (screenStream) {
+      stopScreenShare();
+    } else {
+      startScreenShare();
+    }
+  };
+
+  const handleParticipantMessage = (participantId: string) => {
+    setChatRecipient(participantId);
+    setShowChat(true);
+  };
+
   // Show loading state
-  if (roomValid === null) {
+  if (
+    roomValid === null ||
+    sessionStatus === "loading" ||
+    (isGuestVisitor && guest === undefined)
+  ) {
     return (
       <main className="h-screen bg-black flex items-center justify-center">
         <div className="text-white">Loading room...</div>
@@ -320,6 +659,55 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     );
   }
 
+  // Show room full state
+  if (roomFullLimit !== null) {
+    return (
+      <main className="h-screen bg-black flex items-center justify-center">
+        <div className="text-center text-white space-y-6 max-w-md px-4">
+          <h2 className="text-2xl font-semibold">This room is full</h2>
+          <p className="text-gray-400">
+            The room has reached its limit of {roomFullLimit} participants. Try
+            again once someone leaves.
+          </p>
+          <div className="flex gap-4 justify-center">
+            <button
+              onClick={handleRetryJoin}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium"
+            >
+              Try Again
+            </button>
+            <button
+              onClick={handleLeaveRoom}
+              className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg"
+            >
+              Back to Home
+            </button>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  // Show lobby denied state
+  if (lobbyStatus === "denied") {
+    return (
+      <main className="h-screen bg-black flex items-center justify-center">
+        <div className="text-center text-white space-y-6 max-w-md px-4">
+          <h2 className="text-2xl font-semibold">You can't join this call</h2>
+          <p className="text-gray-400">
+            The host declined your request to join.
+          </p>
+          <button
+            onClick={handleLeaveRoom}
+            className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg"
+          >
+            Back to Home
+          </button>
+        </div>
+      </main>
+    );
+  }
+
   // Show error state
   if (webrtcError) {
     return (
@@ -338,6 +726,123 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     );
   }
 
+  // Room only admits signed-in users
+  if (signInRequired) {
+    return (
+      <main className="h-screen bg-black flex items-center justify-center">
+        <div className="text-center text-white space-y-6 max-w-md px-4">
+          <h2 className="text-2xl font-semibold">Sign in to join</h2>
+          <p className="text-gray-400">
+            The host only allows signed-in participants in this room.
+          </p>
+          <div className="flex gap-4 justify-center">
+            <button
+              onClick={() =>
+                signIn(undefined, { callbackUrl: window.location.href })
+              }
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium"
+            >
+              Sign In
+            </button>
+            <button
+              onClick={handleLeaveRoom}
+              className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </main>
+    );
+  }
+
+  // Guests pick the name others will see
+  if (needsGuestName) {
+    return (
+      <main className="h-screen bg-black flex items-center justify-center">
+        <form
+          onSubmit={handleSubmitGuestName}
+          className="text-center text-white space-y-6 max-w-md w-full px-4"
+        >
+          <h2 className="text-2xl font-semibold">What's your name?</h2>
+          <p className="text-gray-400">
+            You are joining as a guest. Others in the call will see this name.
+          </p>
+          <input
+            type="text"
+            value={guestNameInput}
+            onChange={(e) => setGuestNameInput(e.target.value)}
+            placeholder="Your name"
+            maxLength={40}
+            autoFocus
+            className="w-full px-4 py-3 bg-gray-800 rounded-lg text-white"
+          />
+          {guestError && <p className="text-red-400 text-sm">{guestError}</p>}
+          <div className="flex gap-4 justify-center">
+            <button
+              type="submit"
+              disabled={isSavingGuest || !guestNameInput.trim()}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isSavingGuest ? "Joining..." : "Continue"}
+            </button>
+            <button
+              type="button"
+              onClick={() =>
+                signIn(undefined, { callbackUrl: window.location.href })
+              }
+              className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg"
+            >
+              Sign In Instead
+            </button>
+          </div>
+        </form>
+      </main>
+    );
+  }
+
+  // Ask for the passcode before touching the camera
+  if (needsPasscode) {
+    return (
+      <main className="h-screen bg-black flex items-center justify-center">
+        <form
+          onSubmit={handleSubmitPasscode}
+          className="text-center text-white space-y-6 max-w-md w-full px-4"
+        >
+          <h2 className="text-2xl font-semibold">Enter Passcode</h2>
+          <p className="text-gray-400">This meeting is protected.</p>
+          <input
+            type="password"
+            value={passcodeInput}
+            onChange={(e) => setPasscodeInput(e.target.value)}
+            placeholder="Passcode"
+            autoFocus
+            className="w-full px-4 py-3 bg-gray-800 rounded-lg text-white"
+          />
+          {passcodeError && (
+            <p className="text-red-400 text-sm">{passcodeError}</p>
+          )}
+          <div className="flex gap-4 justify-center">
+            <button
+              type="submit"
+              disabled={isCheckingPasscode || !passcodeInput}
+              className="px-6 py-3 bg-blue-600 hover:bg-blue-700 rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isCheckingPasscode ? "Checking..." : "Continue"}
+            </button>
+            <button
+              type="button"
+              onClick={handleLeaveRoom}
+              className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      </main>
+    );
+  }
+
   // Show camera permission prompt if not requested yet
   if (!mediaRequested && !localStream && roomValid === true) {
     return (
@@ -369,8 +874,55 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
     );
   }
 
+  // Show lobby while the host decides
+  if (lobbyStatus === "waiting") {
+    return (
+      <main className="h-screen bg-black flex items-center justify-center">
+        <div className="text-center text-white space-y-6 max-w-md px-4">
+          <h2 className="text-2xl font-semibold">Waiting to be let in</h2>
+          <p className="text-gray-400">
+            The host will admit you to the call shortly.
+          </p>
+          <button
+            onClick={handleLeaveRoom}
+            className="px-6 py-3 bg-gray-700 hover:bg-gray-600 rounded-lg"
+          >
+            Leave
+          </button>
+        </div>
+      </main>
+    );
+  }
+
   return (
-    <main className="h-screen bg-black flex flex-col">
+    <main
+      className="h-screen bg-black flex flex-col"
+      onDragOver={(e) => {
+        if (!e.dataTransfer.types.includes("Files")) return;
+        e.preventDefault();
+        setIsDraggingFile(true);
+      }}
+      onDragLeave={(e) => {
+        // Only when the pointer leaves the window, not a child element
+        if (e.relatedTarget === null) setIsDraggingFile(false);
+      }}
+      onDrop={(e) => {
+        e.preventDefault();
+        setIsDraggingFile(false);
+        const file = e.dataTransfer.files[0];
+        if (file) handleSendFile(file);
+      }}
+    >
+      {/* Drop Overlay */}
+      {isDraggingFile && (
+        <div className="fixed inset-0 z-40 bg-black/70 border-4 border-dashed border-primary flex items-center justify-center pointer-events-none">
+          <p className="text-white text-lg font-medium">
+            Drop to send to{" "}
+            {recipients.find((p) => p.id === fileRecipient)?.name ?? "everyone"}
+          </p>
+        </div>
+      )}
+
       {/* Notification Container */}
       <div className="fixed top-4 right-4 z-50 flex flex-col gap-2">
         {notifications.map((notification) => (
@@ -387,7 +939,17 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
         {/* Video Grid Area */}
         <div className="flex-1 flex flex-col gap-4 min-w-0 overflow-hidden relative">
           <div className="flex-1 overflow-y-auto min-h-0">
-            <VideoGrid participants={allParticipants} />
+            <VideoGrid
+              participants={allParticipants}
+              screenShares={screenShares}
+              layout={layout}
+              activeSpeakerId={dominantSpeakerId}
+              pinnedId={pinnedId}
+              spotlightId={spotlightLocalId}
+              onTogglePin={(id) =>
+                setPinnedId((prev) => (prev === id ? null : id))
+              }
+            />
           </div>
 
           {/* Connection Status */}
@@ -401,11 +963,77 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
         {/* Participants Panel - Collapsible */}
         {showParticipants && (
           <div className="w-full md:w-64 bg-card border border-border rounded-lg overflow-hidden flex flex-col max-h-full">
+            {isHost && (
+              <PasscodeSettings
+                roomId={roomId.roomId}
+                passcodeRequired={passcodeRequired}
+                onChange={setPasscodeRequired}
+              />
+            )}
+            {isHost && (
+              <ScreenShareSettings
+                hostsOnly={screenShareHostsOnly}
+                onChange={setScreenShareHostsOnly}
+              />
+            )}
             <ParticipantList
               participants={allParticipants}
               isHost={isHost}
               onParticipantMute={handleParticipantMute}
               onParticipantKick={handleParticipantKick}
+              onParticipantMessage={
+                canMessagePrivately ? handleParticipantMessage : undefined
+              }
+              waitingParticipants={waitingParticipants}
+              onAdmit={admitParticipant}
+              onDeny={denyParticipant}
+              onAdmitAll={admitAllParticipants}
+              raisedHands={raisedHands.map((h) => toLocalId(h.id))}
+              onLowerHand={(id) =>
+                id === "local" ? setHandRaised(false) : lowerHand(id)
+              }
+              onToggleSpotlight={(id) =>
+                setSpotlight(
+                  id === spotlightLocalId
+                    ? null
+                    : id === "local"
+                    ? participantId
+                    : id
+                )
+              }
+            />
+          </div>
+        )}
+
+        {/* Files Panel - Collapsible */}
+        {showFiles && (
+          <div className="w-full md:w-72 bg-card border border-border rounded-lg overflow-hidden flex flex-col max-h-full">
+            <FileTransfers
+              transfers={transfers}
+              recipients={recipients}
+              recipientId={fileRecipient}
+              onRecipientChange={setFileRecipient}
+              onSendFile={handleSendFile}
+              onCancel={cancelTransfer}
+              onDismiss={dismissTransfer}
+              error={fileError}
+            />
+          </div>
+        )}
+
+        {/* Chat Panel - Collapsible */}
+        {showChat && (
+          <div className="w-full md:w-72 bg-card border border-border rounded-lg overflow-hidden flex flex-col max-h-full">
+            <ChatPanel
+              messages={chatMessages}
+              participantId={participantId}
+              onSend={sendChatMessage}
+              recipients={recipients}
+              recipientId={chatRecipient}
+              onRecipientChange={setChatRecipient}
+              privateChatEnabled={privateChatEnabled}
+              isHost={isHost}
+              onPrivateChatChange={setPrivateChat}
             />
           </div>
         )}
@@ -420,6 +1048,17 @@ export default function RoomPage({ params }: { params: { roomId: string } }) {
         onLeaveRoom={handleLeaveRoom}
         onToggleParticipants={() => setShowParticipants(!showParticipants)}
         participantCount={allParticipants.length}
+        onToggleChat={() => setShowChat(!showChat)}
+        unreadChatCount={unreadChatCount}
+        onToggleFiles={() => setShowFiles(!showFiles)}
+        isHandRaised={isHandRaised}
+        onToggleHand={() => setHandRaised(!isHandRaised)}
+        onReaction={sendReaction}
+        isScreenSharing={screenStream !== null}
+        canShareScreen={canShareScreen}
+        onToggleScreenShare={handleToggleScreenShare}
+        layout={layout}
+        onLayoutChange={setLayout}
       />
     </main>
   );
@@ -0,0 +1,191 @@
+"use client";
+
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Lock, Send } from "lucide-react";
+import { MAX_CHAT_MESSAGE_LENGTH, type ChatMessage } from "@shared/protocol";
+
+interface ChatRecipient {
+  id: string;
+  name: string;
+}
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  participantId: string;
+  onSend: (text: string, to?: string) => void;
+  // Remote participants who can receive private messages
+  recipients: ChatRecipient[];
+  // Participant the next message goes to privately; null for everyone
+  recipientId: string | null;
+  onRecipientChange: (recipientId: string | null) => void;
+  privateChatEnabled: boolean;
+  isHost: boolean;
+  onPrivateChatChange: (enabled: boolean) => void;
+}
+
+const URL_PATTERN = /(https?:\/\/[^\s<]+[^\s<.,:;"')\]}])/g;
+
+// Turns URLs into links; everything else stays plain text
+function linkify(text: string, keyPrefix: string): ReactNode[] {
+  return text.split(URL_PATTERN).map((part, i) =>
+    i % 2 === 1 ? (
+      <a
+        key={`${keyPrefix}-${i}`}
+        href={part}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="underline text-primary break-all"
+      >
+        {part}
+      </a>
+    ) : (
+      part
+    )
+  );
+}
+
+// `code` spans first, then links in the text between them
+function formatChatText(text: string): ReactNode[] {
+  return text.split(/`([^`\n]+)`/g).flatMap((part, i) =>
+    i % 2 === 1 ? (
+      <code
+        key={`code-${i}`}
+        className="bg-muted rounded px-1 font-mono text-xs"
+      >
+        {part}
+      </code>
+    ) : (
+      linkify(part, `text-${i}`)
+    )
+  );
+}
+
+export function ChatPanel({
+  messages,
+  participantId,
+  onSend,
+  recipients,
+  recipientId,
+  onRecipientChange,
+  privateChatEnabled,
+  isHost,
+  onPrivateChatChange,
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState("");
+  const canMessagePrivately = privateChatEnabled || isHost;
+
+  const nameOf = (id: string) =>
+    id === participantId
+      ? "You"
+      : recipients.find((recipient) => recipient.id === id)?.name ??
+        "Participant";
+
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [messages.length]);
+
+  const send = () => {
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text, recipientId ?? undefined);
+    setDraft("");
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b border-border px-4 py-3 flex-shrink-0 flex items-center justify-between gap-2">
+        <h2 className="font-semibold text-sm text-card-foreground">Chat</h2>
+        {isHost && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => onPrivateChatChange(!privateChatEnabled)}
+            title="Allow participants to message each other privately"
+          >
+            {privateChatEnabled ? "Disable private chat" : "Allow private chat"}
+          </Button>
+        )}
+      </div>
+      <div className="flex-1 overflow-y-auto min-h-0 px-4 py-2 space-y-3">
+        {messages.length === 0 && (
+          <p className="text-xs text-muted-foreground">No messages yet</p>
+        )}
+        {messages.map((message) => (
+          <div key={message.id} className="text-sm">
+            <div className="flex items-baseline gap-2">
+              <span className="font-medium text-card-foreground truncate">
+                {message.from === participantId ? "You" : message.name}
+                {message.to && ` to ${nameOf(message.to)}`}
+              </span>
+              {message.to && (
+                <span className="text-xs text-muted-foreground flex items-center gap-1 flex-shrink-0">
+                  <Lock className="w-3 h-3" />
+                  Private
+                </span>
+              )}
+              <span className="text-xs text-muted-foreground flex-shrink-0">
+                {new Date(message.sentAt).toLocaleTimeString([], {
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </span>
+            </div>
+            <p className="text-card-foreground whitespace-pre-wrap break-words">
+              {formatChatText(message.text)}
+            </p>
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+      <div className="border-t border-border flex-shrink-0">
+        {canMessagePrivately && recipients.length > 0 && (
+          <div className="px-2 pt-2 flex items-center gap-2 text-xs text-muted-foreground">
+            <label htmlFor="chat-recipient">To</label>
+            <select
+              id="chat-recipient"
+              value={recipientId ?? ""}
+              onChange={(e) => onRecipientChange(e.target.value || null)}
+              className="flex-1 min-w-0 bg-muted rounded-md px-2 py-1 text-card-foreground"
+            >
+              <option value="">Everyone</option>
+              {recipients.map((recipient) => (
+                <option key={recipient.id} value={recipient.id}>
+                  {recipient.name} (private)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        <form
+          className="p-2 flex gap-1"
+          onSubmit={(e) => {
+            e.preventDefault();
+            send();
+          }}
+        >
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_CHAT_MESSAGE_LENGTH}
+            placeholder="Send a message"
+            className="flex-1 min-w-0 bg-muted rounded-md px-2 py-1 text-sm"
+          />
+          <Button
+            type="submit"
+            size="icon"
+            className="h-8 w-8"
+            disabled={!draft.trim()}
+            title="Send"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,17 @@
 "use client"
 
+import { useState } from "react"
 import { Button } from "@/components/ui/button"
-import { Mic, MicOff, Video, VideoOff, PhoneOff, Users } from "lucide-react"
+import { Mic, MicOff, Video, VideoOff, PhoneOff, Users, MessageSquare, Paperclip, Hand, SmilePlus, MonitorUp, MonitorOff, LayoutGrid, Presentation, PanelRight, GalleryHorizontal } from "lucide-react"
+import { REACTIONS, type Reaction } from "@shared/protocol"
+import type { VideoLayout } from "@/components/video-grid"
+
+const LAYOUTS = [
+  { layout: "grid", label: "Grid", Icon: LayoutGrid },
+  { layout: "speaker", label: "Speaker", Icon: Presentation },
+  { layout: "sidebar", label: "Sidebar", Icon: PanelRight },
+  { layout: "filmstrip", label: "Filmstrip", Icon: GalleryHorizontal },
+] as const
 
 interface ControlBarProps {
   isMicEnabled: boolean
@@ -11,6 +21,18 @@ interface ControlBarProps {
   onLeaveRoom: () => void
   onToggleParticipants: () => void
   participantCount: number
+  onToggleChat: () => void
+  unreadChatCount: number
+  onToggleFiles: () => void
+  isHandRaised: boolean
+  onToggleHand: () => void
+  onReaction: (emoji: Reaction) => void
+  isScreenSharing: boolean
+  // False when the host restricted screen sharing to hosts
+  canShareScreen: boolean
+  onToggleScreenShare: () => void
+  layout: VideoLayout
+  onLayoutChange: (layout: VideoLayout) => void
 }
 
 export function ControlBar({
@@ -21,7 +43,22 @@ export function ControlBar({
   onLeaveRoom,
   onToggleParticipants,
   participantCount,
+  onToggleChat,
+  unreadChatCount,
+  onToggleFiles,
+  isHandRaised,
+  onToggleHand,
+  onReaction,
+  isScreenSharing,
+  canShareScreen,
+  onToggleScreenShare,
+  layout,
+  onLayoutChange,
 }: ControlBarProps) {
+  const [showReactions, setShowReactions] = useState(false)
+  const [showLayouts, setShowLayouts] = useState(false)
+  const CurrentLayoutIcon = LAYOUTS.find((option) => option.layout === layout)!.Icon
+
   return (
     <div className="bg-card border-t border-border px-4 py-4 flex items-center justify-center gap-4">
       {/* Mic Toggle */}
@@ -46,6 +83,94 @@ export function ControlBar({
         {isCameraEnabled ? <Video className="w-5 h-5" /> : <VideoOff className="w-5 h-5" />}
       </Button>
 
+      {/* Screen Share Toggle */}
+      <Button
+        variant={isScreenSharing ? "default" : "outline"}
+        size="icon"
+        className={`w-12 h-12 rounded-full ${isScreenSharing ? "" : "bg-transparent"}`}
+        onClick={onToggleScreenShare}
+        disabled={!isScreenSharing && !canShareScreen}
+        title={
+          isScreenSharing
+            ? "Stop sharing"
+            : canShareScreen
+              ? "Share screen"
+              : "Only hosts can share their screen"
+        }
+      >
+        {isScreenSharing ? <MonitorOff className="w-5 h-5" /> : <MonitorUp className="w-5 h-5" />}
+      </Button>
+
+      {/* Raise Hand */}
+      <Button
+        variant={isHandRaised ? "default" : "outline"}
+        size="icon"
+        className={`w-12 h-12 rounded-full ${isHandRaised ? "bg-yellow-500 hover:bg-yellow-600 text-black" : "bg-transparent"}`}
+        onClick={onToggleHand}
+        title={isHandRaised ? "Lower hand" : "Raise hand"}
+      >
+        <Hand className="w-5 h-5" />
+      </Button>
+
+      {/* Reactions */}
+      <div className="relative">
+        <Button
+          variant="outline"
+          size="icon"
+          className="w-12 h-12 rounded-full bg-transparent"
+          onClick={() => setShowReactions(!showReactions)}
+          title="React"
+        >
+          <SmilePlus className="w-5 h-5" />
+        </Button>
+        {showReactions && (
+          <div className="absolute bottom-14 left-1/2 -translate-x-1/2 bg-card border border-border rounded-full px-2 py-1 flex gap-1 shadow-lg">
+            {REACTIONS.map((emoji) => (
+              <button
+                key={emoji}
+                className="text-2xl w-10 h-10 rounded-full hover:bg-muted"
+                onClick={() => {
+                  onReaction(emoji)
+                  setShowReactions(false)
+                }}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Layout */}
+      <div className="relative">
+        <Button
+          variant="outline"
+          size="icon"
+          className="w-12 h-12 rounded-full bg-transparent"
+          onClick={() => setShowLayouts(!showLayouts)}
+          title="Change layout"
+        >
+          <CurrentLayoutIcon className="w-5 h-5" />
+        </Button>
+        {showLayouts && (
+          <div className="absolute bottom-14 left-1/2 -translate-x-1/2 bg-card border border-border rounded-lg p-1 flex flex-col shadow-lg">
+            {LAYOUTS.map(({ layout: option, label, Icon }) => (
+              <button
+                key={option}
+                className={`flex items-center gap-2 px-3 py-2 rounded-md text-sm hover:bg-muted ${option === layout ? "bg-muted font-medium" : ""}`}
+                onClick={() => {
+                  onLayoutChange(option)
+                  setShowLayouts(false)
+                }}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
       {/* Participants Toggle */}
       <Button
         variant="outline"
@@ -60,6 +185,33 @@ export function ControlBar({
         </span>
       </Button>
 
+      {/* Chat Toggle */}
+      <Button
+        variant="outline"
+        size="icon"
+        className="w-12 h-12 rounded-full bg-transparent"
+        onClick={onToggleChat}
+        title="Show chat"
+      >
+        <MessageSquare className="w-5 h-5" />
+        {unreadChatCount > 0 && (
+          <span className="absolute -top-2 -right-2 bg-destructive text-white text-xs font-semibold rounded-full min-w-5 h-5 px-1 flex items-center justify-center">
+            {unreadChatCount > 99 ? "99+" : unreadChatCount}
+          </span>
+        )}
+      </Button>
+
+      {/* Files Toggle */}
+      <Button
+        variant="outline"
+        size="icon"
+        className="w-12 h-12 rounded-full bg-transparent"
+        onClick={onToggleFiles}
+        title="Share files"
+      >
+        <Paperclip className="w-5 h-5" />
+      </Button>
+
       {/* Leave Room */}
       <Button
         variant="destructive"
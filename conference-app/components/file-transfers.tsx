@@ -0,0 +1,177 @@
+"use client";
+
+import { useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Download, Paperclip, X } from "lucide-react";
+import type { FileTransfer } from "@/hooks/useFileTransfer";
+
+interface FileRecipient {
+  id: string;
+  name: string;
+}
+
+interface FileTransfersProps {
+  transfers: FileTransfer[];
+  recipients: FileRecipient[];
+  // Participant files go to; null for everyone
+  recipientId: string | null;
+  onRecipientChange: (recipientId: string | null) => void;
+  onSendFile: (file: File) => void;
+  onCancel: (id: string) => void;
+  onDismiss: (id: string) => void;
+  error: string | null;
+}
+
+// 1536 -> "1.5 KB"
+function formatSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export function FileTransfers({
+  transfers,
+  recipients,
+  recipientId,
+  onRecipientChange,
+  onSendFile,
+  onCancel,
+  onDismiss,
+  error,
+}: FileTransfersProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const nameOf = (id: string) =>
+    recipients.find((recipient) => recipient.id === id)?.name ?? "Participant";
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="border-b border-border px-4 py-3 flex-shrink-0">
+        <h2 className="font-semibold text-sm text-card-foreground">Files</h2>
+        <p className="text-xs text-muted-foreground">
+          Sent directly to participants. Drop a file anywhere to share it.
+        </p>
+      </div>
+      <div className="flex-1 overflow-y-auto min-h-0">
+        {transfers.length === 0 && (
+          <p className="px-4 py-2 text-xs text-muted-foreground">
+            No files shared yet
+          </p>
+        )}
+        {transfers.map((transfer) => {
+          const progress =
+            transfer.size > 0
+              ? Math.round((transfer.bytesTransferred / transfer.size) * 100)
+              : 100;
+
+          return (
+            <div
+              key={transfer.id}
+              className="px-4 py-2 border-b border-border space-y-1"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <p className="text-sm text-card-foreground truncate">
+                  {transfer.name}
+                </p>
+                {transfer.status === "transferring" ? (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => onCancel(transfer.id)}
+                    title="Cancel"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                ) : (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-6 w-6"
+                    onClick={() => onDismiss(transfer.id)}
+                    title="Dismiss"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {transfer.direction === "send" ? "To" : "From"}{" "}
+                {nameOf(transfer.peerId)} · {formatSize(transfer.size)}
+              </p>
+              {transfer.status === "transferring" && (
+                <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-primary transition-all"
+                    style={{ width: `${progress}%` }}
+                  />
+                </div>
+              )}
+              {transfer.status === "completed" &&
+                (transfer.url ? (
+                  <a
+                    href={transfer.url}
+                    download={transfer.name}
+                    className="inline-flex items-center gap-1 text-xs text-primary underline"
+                  >
+                    <Download className="w-3 h-3" />
+                    Save file
+                  </a>
+                ) : (
+                  <p className="text-xs text-green-500">Sent</p>
+                ))}
+              {transfer.status === "cancelled" && (
+                <p className="text-xs text-muted-foreground">
+                  Cancelled{transfer.error && `: ${transfer.error}`}
+                </p>
+              )}
+              {transfer.status === "failed" && (
+                <p className="text-xs text-destructive">
+                  Failed{transfer.error && `: ${transfer.error}`}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      <div className="border-t border-border p-2 space-y-2 flex-shrink-0">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <label htmlFor="file-recipient">To</label>
+          <select
+            id="file-recipient"
+            value={recipientId ?? ""}
+            onChange={(e) => onRecipientChange(e.target.value || null)}
+            className="flex-1 min-w-0 bg-muted rounded-md px-2 py-1 text-card-foreground"
+          >
+            <option value="">Everyone</option>
+            {recipients.map((recipient) => (
+              <option key={recipient.id} value={recipient.id}>
+                {recipient.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onSendFile(file);
+            e.target.value = "";
+          }}
+        />
+        <Button
+          size="sm"
+          className="w-full h-8 text-xs"
+          onClick={() => inputRef.current?.click()}
+          disabled={recipients.length === 0}
+        >
+          <Paperclip className="w-3 h-3 mr-1" />
+          Share a file
+        </Button>
+        {error && <p className="text-xs text-destructive">{error}</p>}
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,8 @@
 "use client";
 
 import { Button } from "@/components/ui/button";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { Mic, MicOff, Trash2 } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Hand, MessageSquare, Mic, MicOff, Star, Trash2 } from "lucide-react";
 import { useState } from "react";
 
 interface Participant {
@@ -11,6 +11,10 @@ interface Participant {
   isMuted: boolean;
   isHost: boolean;
   avatar: string;
+  image?: string | null;
+  isGuest?: boolean;
+  handRaised?: boolean;
+  isSpotlighted?: boolean;
 }
 
 interface ParticipantItemProps {
@@ -18,6 +22,10 @@ interface ParticipantItemProps {
   isHost: boolean;
   onMute: () => void;
   onKick: () => void;
+  // Start a private chat; omitted when it is not allowed
+  onMessage?: () => void;
+  // Hosts only
+  onToggleSpotlight?: () => void;
 }
 
 export function ParticipantItem({
@@ -25,6 +33,8 @@ export function ParticipantItem({
   isHost,
   onMute,
   onKick,
+  onMessage,
+  onToggleSpotlight,
 }: ParticipantItemProps) {
   const [showActions, setShowActions] = useState(false);
 
@@ -36,6 +46,9 @@ export function ParticipantItem({
     >
       <div className="flex items-center gap-2 flex-1 min-w-0">
         <Avatar className="h-8 w-8">
+          {participant.image && (
+            <AvatarImage src={participant.image} alt={participant.name} />
+          )}
           <AvatarFallback className="text-xs">
             {participant.avatar}
           </AvatarFallback>
@@ -46,17 +59,60 @@ export function ParticipantItem({
             {participant.isHost && (
               <span className="text-xs text-muted-foreground ml-1">(Host)</span>
             )}
+            {participant.isGuest && (
+              <span className="text-xs text-muted-foreground ml-1">
+                (Guest)
+              </span>
+            )}
           </p>
         </div>
       </div>
 
       <div className="flex items-center gap-1">
+        {participant.isSpotlighted && (
+          <Star
+            className="w-4 h-4 text-sky-400 fill-sky-400"
+            aria-label="Spotlighted"
+          />
+        )}
+        {participant.handRaised && (
+          <Hand className="w-4 h-4 text-yellow-400" aria-label="Hand raised" />
+        )}
         {participant.isMuted ? (
           <MicOff className="w-4 h-4 text-red-400" />
         ) : (
           <Mic className="w-4 h-4 text-green-400" />
         )}
 
+        {onMessage && participant.id !== "local" && showActions && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 ml-2"
+            onClick={onMessage}
+            title="Send a private message"
+          >
+            <MessageSquare className="w-3 h-3" />
+          </Button>
+        )}
+
+        {/* Hosts can spotlight anyone, themselves included */}
+        {isHost && onToggleSpotlight && showActions && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 ml-2"
+            onClick={onToggleSpotlight}
+            title={
+              participant.isSpotlighted
+                ? "Remove spotlight"
+                : "Spotlight for everyone"
+            }
+          >
+            <Star className="w-3 h-3" />
+          </Button>
+        )}
+
         {/* Host-only actions */}
         {isHost &&
           participant.id !== "local" &&
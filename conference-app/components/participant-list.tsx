@@ -1,5 +1,7 @@
 "use client";
 
+import { Button } from "@/components/ui/button";
+import { Check, Hand, X } from "lucide-react";
 import { ParticipantItem } from "./participant-item";
 
 interface Participant {
@@ -8,8 +10,17 @@ interface Participant {
   isMuted: boolean;
   isHost: boolean;
   avatar: string;
+  image?: string | null;
+  isGuest?: boolean;
   stream?: MediaStream;
   isCameraEnabled?: boolean;
+  handRaised?: boolean;
+  isSpotlighted?: boolean;
+}
+
+interface WaitingParticipant {
+  id: string;
+  name: string;
 }
 
 interface ParticipantListProps {
@@ -17,6 +28,15 @@ interface ParticipantListProps {
   isHost: boolean;
   onParticipantMute: (id: string) => void;
   onParticipantKick: (id: string) => void;
+  onParticipantMessage?: (id: string) => void;
+  waitingParticipants?: WaitingParticipant[];
+  onAdmit?: (id: string) => void;
+  onDeny?: (id: string) => void;
+  onAdmitAll?: () => void;
+  // Participant ids with raised hands, oldest first
+  raisedHands?: string[];
+  onLowerHand?: (id: string) => void;
+  onToggleSpotlight?: (id: string) => void;
 }
 
 export function ParticipantList({
@@ -24,9 +44,104 @@ export function ParticipantList({
   isHost,
   onParticipantMute,
   onParticipantKick,
+  onParticipantMessage,
+  waitingParticipants = [],
+  onAdmit,
+  onDeny,
+  onAdmitAll,
+  raisedHands = [],
+  onLowerHand,
+  onToggleSpotlight,
 }: ParticipantListProps) {
+  const nameOf = (id: string) =>
+    participants.find((participant) => participant.id === id)?.name ??
+    "Participant";
+
   return (
     <div className="flex flex-col h-full">
+      {/* Lobby - host only */}
+      {isHost && waitingParticipants.length > 0 && (
+        <div className="border-b border-border flex-shrink-0 max-h-64 flex flex-col">
+          <div className="px-4 py-3 flex items-center justify-between gap-2">
+            <h2 className="font-semibold text-sm text-card-foreground">
+              Waiting ({waitingParticipants.length})
+            </h2>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 text-xs"
+              onClick={onAdmitAll}
+            >
+              Admit all
+            </Button>
+          </div>
+          <div className="overflow-y-auto min-h-0">
+            {waitingParticipants.map((waiting) => (
+              <div
+                key={waiting.id}
+                className="px-4 py-2 flex items-center justify-between gap-2"
+              >
+                <p className="text-sm text-card-foreground truncate">
+                  {waiting.name}
+                </p>
+                <div className="flex gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 hover:bg-green-500/20"
+                    onClick={() => onAdmit?.(waiting.id)}
+                    title="Admit"
+                  >
+                    <Check className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 hover:bg-destructive/20"
+                    onClick={() => onDeny?.(waiting.id)}
+                    title="Deny"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Raised hands queue - host only */}
+      {isHost && raisedHands.length > 0 && (
+        <div className="border-b border-border flex-shrink-0 max-h-48 flex flex-col">
+          <div className="px-4 py-3">
+            <h2 className="font-semibold text-sm text-card-foreground">
+              Raised hands ({raisedHands.length})
+            </h2>
+          </div>
+          <ol className="overflow-y-auto min-h-0">
+            {raisedHands.map((id, index) => (
+              <li
+                key={id}
+                className="px-4 py-2 flex items-center justify-between gap-2"
+              >
+                <p className="text-sm text-card-foreground truncate">
+                  {index + 1}. {nameOf(id)}
+                </p>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => onLowerHand?.(id)}
+                  title="Lower hand"
+                >
+                  <Hand className="w-3 h-3" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       <div className="border-b border-border px-4 py-3 flex-shrink-0">
         <h2 className="font-semibold text-sm text-card-foreground">
           Participants ({participants.length})
@@ -40,6 +155,13 @@ export function ParticipantList({
             isHost={isHost}
             onMute={() => onParticipantMute(participant.id)}
             onKick={() => onParticipantKick(participant.id)}
+            onMessage={
+              onParticipantMessage &&
+              (() => onParticipantMessage(participant.id))
+            }
+            onToggleSpotlight={
+              onToggleSpotlight && (() => onToggleSpotlight(participant.id))
+            }
           />
         ))}
       </div>
@@ -0,0 +1,97 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Lock, LockOpen } from "lucide-react";
+
+interface PasscodeSettingsProps {
+  roomId: string;
+  passcodeRequired: boolean;
+  onChange: (passcodeRequired: boolean) => void;
+}
+
+// Host-only control for setting or removing the room passcode
+export function PasscodeSettings({
+  roomId,
+  passcodeRequired,
+  onChange,
+}: PasscodeSettingsProps) {
+  const [passcode, setPasscode] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updatePasscode = async (value: string | null) => {
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/passcode`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ passcode: value }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to update passcode");
+      }
+
+      setPasscode("");
+      onChange(data.passcodeRequired);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to update passcode"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="border-b border-border px-4 py-3 flex-shrink-0 space-y-2">
+      <div className="flex items-center gap-2 text-sm text-card-foreground">
+        {passcodeRequired ? (
+          <Lock className="w-4 h-4" />
+        ) : (
+          <LockOpen className="w-4 h-4" />
+        )}
+        <span>{passcodeRequired ? "Passcode on" : "No passcode"}</span>
+      </div>
+      <form
+        className="flex gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          updatePasscode(passcode);
+        }}
+      >
+        <input
+          type="password"
+          value={passcode}
+          onChange={(e) => setPasscode(e.target.value)}
+          placeholder={passcodeRequired ? "New passcode" : "Set a passcode"}
+          className="flex-1 min-w-0 bg-muted rounded-md px-2 py-1 text-sm"
+        />
+        <Button
+          type="submit"
+          size="sm"
+          className="h-7 text-xs"
+          disabled={isSaving || !passcode}
+        >
+          Save
+        </Button>
+      </form>
+      {passcodeRequired && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 text-xs"
+          onClick={() => updatePasscode(null)}
+          disabled={isSaving}
+        >
+          Remove passcode
+        </Button>
+      )}
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { MonitorUp } from "lucide-react";
+
+interface ScreenShareSettingsProps {
+  hostsOnly: boolean;
+  onChange: (hostsOnly: boolean) => void;
+}
+
+// Host-only control for who may share their screen
+export function ScreenShareSettings({
+  hostsOnly,
+  onChange,
+}: ScreenShareSettingsProps) {
+  return (
+    <div className="border-b border-border px-4 py-3 flex-shrink-0 flex items-center justify-between gap-2">
+      <div className="flex items-center gap-2 text-sm text-card-foreground">
+        <MonitorUp className="w-4 h-4" />
+        <span>{hostsOnly ? "Only hosts can share" : "Everyone can share"}</span>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={() => onChange(!hostsOnly)}
+      >
+        {hostsOnly ? "Allow everyone" : "Hosts only"}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { MonitorUp } from "lucide-react";
+
+export interface ScreenShare {
+  // Participant sharing; "local" for our own screen
+  id: string;
+  name: string;
+  stream: MediaStream;
+}
+
+interface ScreenShareTileProps {
+  share: ScreenShare;
+}
+
+// A shared screen, shown large and letterboxed rather than cropped
+export function ScreenShareTile({ share }: ScreenShareTileProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || video.srcObject === share.stream) return;
+
+    video.srcObject = share.stream;
+    video.play().catch((err) => {
+      console.warn(`[ScreenShareTile ${share.id}] Autoplay blocked:`, err);
+    });
+  }, [share.id, share.stream]);
+
+  return (
+    <div className="relative col-span-full aspect-video bg-black rounded-lg overflow-hidden border border-border">
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        className="w-full h-full object-contain"
+      />
+      <div className="absolute bottom-2 left-2 bg-black/70 text-white text-sm px-2 py-1 rounded flex items-center gap-1">
+        <MonitorUp className="w-4 h-4" />
+        {share.id === "local"
+          ? "You are presenting"
+          : `${share.name} is presenting`}
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,9 @@
 "use client";
 
+import type { ReactElement } from "react";
 import { VideoTile } from "./video-tile";
+import { ScreenShareTile, type ScreenShare } from "./screen-share-tile";
+import type { PeerConnectionStatus } from "@/hooks/useWebRTC";
 
 interface Participant {
   id: string;
@@ -8,20 +11,184 @@ interface Participant {
   isMuted: boolean;
   isHost: boolean;
   avatar: string;
+  image?: string | null;
+  isGuest?: boolean;
   stream?: MediaStream;
   isCameraEnabled?: boolean;
+  handRaised?: boolean;
+  reactions?: { key: string; emoji: string }[];
+  connectionState?: PeerConnectionStatus;
+  isSpeaking?: boolean;
+  isSpotlighted?: boolean;
 }
 
+export type VideoLayout = "grid" | "speaker" | "sidebar" | "filmstrip";
+
+// Columns by participant count, narrowed on smaller viewports. A featured
+// tile spans two columns and rows wherever there are enough of them.
+const GRID_SIZES = [
+  { upTo: 4, columns: "grid-cols-1 md:grid-cols-2", featured: "" },
+  {
+    upTo: 9,
+    columns: "grid-cols-2 lg:grid-cols-3",
+    featured: "lg:col-span-2 lg:row-span-2",
+  },
+  {
+    upTo: 16,
+    columns: "grid-cols-2 md:grid-cols-3 lg:grid-cols-4",
+    featured: "md:col-span-2 md:row-span-2",
+  },
+  {
+    upTo: Infinity,
+    columns: "grid-cols-3 md:grid-cols-4 lg:grid-cols-5",
+    featured: "col-span-2 row-span-2",
+  },
+];
+
 interface VideoGridProps {
   participants: Participant[];
+  // Shown above the camera tiles, spanning the whole grid
+  screenShares?: ScreenShare[];
+  layout?: VideoLayout;
+  // Shown on the stage when nobody is pinned or spotlighted
+  activeSpeakerId?: string | null;
+  // Pinned locally; takes precedence over the host's spotlight
+  pinnedId?: string | null;
+  spotlightId?: string | null;
+  onTogglePin?: (id: string) => void;
+}
+
+export function VideoGrid({
+  participants,
+  screenShares = [],
+  layout = "grid",
+  activeSpeakerId,
+  pinnedId,
+  spotlightId,
+  onTogglePin,
+}: VideoGridProps) {
+  const featured =
+    participants.find((p) => p.id === pinnedId) ??
+    participants.find((p) => p.id === spotlightId);
+
+  const tile = (participant: Participant) => (
+    <VideoTile
+      key={participant.id}
+      participant={participant}
+      isPinned={participant.id === pinnedId}
+      onTogglePin={onTogglePin && (() => onTogglePin(participant.id))}
+    />
+  );
+  // Share ids are participant ids, so they need their own keys
+  const shareTile = (share: ScreenShare) => (
+    <ScreenShareTile key={`screen-${share.id}`} share={share} />
+  );
+  // Featured participant first, everyone else in their usual order
+  const ordered = featured
+    ? [featured, ...participants.filter((p) => p !== featured)]
+    : participants;
+
+  if (layout === "speaker" || layout === "sidebar") {
+    // Screen shares take the stage unless someone was featured on purpose.
+    // Until someone speaks, show the first remote participant.
+    const speaker =
+      featured ??
+      (screenShares.length > 0
+        ? undefined
+        : participants.find((p) => p.id === activeSpeakerId) ??
+          participants.find((p) => p.id !== "local") ??
+          participants[0]);
+    const onStage = speaker ? [speaker] : [];
+    const sharesOnStage = speaker ? [] : screenShares;
+
+    return (
+      <StageView
+        vertical={layout === "sidebar"}
+        stage={[...sharesOnStage.map(shareTile), ...onStage.map(tile)]}
+        strip={[
+          ...screenShares
+            .filter((s) => !sharesOnStage.includes(s))
+            .map(shareTile),
+          ...participants.filter((p) => p !== speaker).map(tile),
+        ]}
+      />
+    );
+  }
+
+  if (layout === "filmstrip") {
+    return (
+      <div className="flex gap-4 p-4 overflow-x-auto">
+        {[...screenShares.map(shareTile), ...ordered.map(tile)].map((item) => (
+          <div key={item.key} className="w-64 flex-shrink-0">
+            {item}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const size = GRID_SIZES.find(({ upTo }) => participants.length <= upTo)!;
+  // Equal row heights would stretch the camera tiles to the screen share or
+  // the featured tile
+  return (
+    <div
+      className={`grid ${size.columns} gap-4 p-4 ${
+        screenShares.length === 0 && !featured ? "auto-rows-fr" : ""
+      }`}
+    >
+      {screenShares.map(shareTile)}
+      {ordered.map((participant) =>
+        participant === featured && size.featured ? (
+          <div key={participant.id} className={size.featured}>
+            {tile(participant)}
+          </div>
+        ) : (
+          tile(participant)
+        )
+      )}
+    </div>
+  );
 }
 
-export function VideoGrid({ participants }: VideoGridProps) {
+// A large stage with everyone else in a strip below it, or beside it
+function StageView({
+  stage,
+  strip,
+  vertical,
+}: {
+  stage: ReactElement[];
+  strip: ReactElement[];
+  vertical: boolean;
+}) {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-2 gap-4 auto-rows-fr p-4">
-      {participants.map((participant) => (
-        <VideoTile key={participant.id} participant={participant} />
-      ))}
+    <div className={`h-full flex gap-4 p-4 ${vertical ? "" : "flex-col"}`}>
+      <div className="flex-1 min-h-0 min-w-0 flex items-center justify-center gap-4">
+        {stage.map((item) => (
+          <div key={item.key} className="h-full max-w-full aspect-video">
+            {item}
+          </div>
+        ))}
+      </div>
+      {strip.length > 0 && (
+        <div
+          className={`flex gap-4 flex-shrink-0 ${
+            vertical
+              ? "flex-col w-32 md:w-56 overflow-y-auto"
+              : "overflow-x-auto"
+          }`}
+        >
+          {strip.map((item) => (
+            <div
+              key={item.key}
+              className={
+                vertical ? "flex-shrink-0" : "w-40 md:w-48 flex-shrink-0"
+              }
+            >
+              {item}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
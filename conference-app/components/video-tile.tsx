@@ -1,8 +1,20 @@
 "use client";
 
 import { Card } from "@/components/ui/card";
-import { Mic, MicOff, Crown, VideoOff } from "lucide-react";
+import {
+  Mic,
+  MicOff,
+  Crown,
+  VideoOff,
+  Hand,
+  Loader2,
+  WifiOff,
+  Pin,
+  PinOff,
+  Star,
+} from "lucide-react";
 import { useEffect, useRef, useState } from "react";
+import type { PeerConnectionStatus } from "@/hooks/useWebRTC";
 
 interface Participant {
   id: string;
@@ -10,15 +22,29 @@ interface Participant {
   isMuted: boolean;
   isHost: boolean;
   avatar: string;
+  image?: string | null;
+  isGuest?: boolean;
   stream?: MediaStream;
   isCameraEnabled?: boolean;
+  handRaised?: boolean;
+  reactions?: { key: string; emoji: string }[];
+  connectionState?: PeerConnectionStatus;
+  isSpeaking?: boolean;
+  // A host featured this participant for everyone
+  isSpotlighted?: boolean;
 }
 
 interface VideoTileProps {
   participant: Participant;
+  isPinned?: boolean;
+  onTogglePin?: () => void;
 }
 
-export function VideoTile({ participant }: VideoTileProps) {
+export function VideoTile({
+  participant,
+  isPinned = false,
+  onTogglePin,
+}: VideoTileProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const currentStreamRef = useRef<MediaStream | undefined>(undefined);
   const [, forceUpdate] = useState({});
@@ -156,7 +182,11 @@ export function VideoTile({ participant }: VideoTileProps) {
   const showPlaceholder = !participant.stream || !showVideo;
 
   return (
-    <Card className="relative bg-gradient-to-br from-gray-800 to-gray-900 border-gray-700 overflow-hidden aspect-video flex items-center justify-center group">
+    <Card
+      className={`relative bg-gradient-to-br from-gray-800 to-gray-900 border-gray-700 overflow-hidden aspect-video flex items-center justify-center group transition-shadow ${
+        participant.isSpeaking ? "ring-4 ring-green-500" : ""
+      }`}
+    >
       {/* Video Element - Always render if stream exists */}
       {/* CRITICAL: All videos start muted to satisfy autoplay policy, then unmute remote after playing */}
       {participant.stream && (
@@ -186,9 +216,18 @@ export function VideoTile({ participant }: VideoTileProps) {
 
           {/* Avatar */}
           <div className="relative z-20 flex flex-col items-center gap-3">
-            <div className="w-16 h-16 rounded-full bg-primary flex items-center justify-center text-xl font-semibold text-primary-foreground">
-              {participant.avatar}
-            </div>
+            {participant.image ? (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                src={participant.image}
+                alt={participant.name}
+                className="w-16 h-16 rounded-full object-cover"
+              />
+            ) : (
+              <div className="w-16 h-16 rounded-full bg-primary flex items-center justify-center text-xl font-semibold text-primary-foreground">
+                {participant.avatar}
+              </div>
+            )}
             {participant.stream && !showVideo && (
               <div className="flex items-center gap-1 text-gray-400 text-sm">
                 <VideoOff className="w-4 h-4" />
@@ -199,6 +238,61 @@ export function VideoTile({ participant }: VideoTileProps) {
         </>
       )}
 
+      {/* Connection Recovery */}
+      {(participant.connectionState === "reconnecting" ||
+        participant.connectionState === "failed") && (
+        <div className="absolute inset-0 z-20 bg-black/60 flex flex-col items-center justify-center gap-2 text-white text-sm">
+          {participant.connectionState === "reconnecting" ? (
+            <>
+              <Loader2 className="w-6 h-6 animate-spin" />
+              <span>Reconnecting…</span>
+            </>
+          ) : (
+            <>
+              <WifiOff className="w-6 h-6" />
+              <span>Connection lost</span>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Raised Hand */}
+      {participant.handRaised && (
+        <div className="absolute top-3 left-3 z-30 bg-yellow-500 text-black rounded-full p-1.5">
+          <Hand className="w-4 h-4" aria-label="Hand raised" />
+        </div>
+      )}
+
+      {/* Pin - shown on hover, or while pinned */}
+      {onTogglePin && (
+        <button
+          className={`absolute top-3 right-3 z-30 bg-black/60 hover:bg-black/80 text-white rounded-full p-1.5 transition-opacity ${
+            isPinned
+              ? ""
+              : "opacity-0 group-hover:opacity-100 focus:opacity-100"
+          }`}
+          onClick={onTogglePin}
+          title={isPinned ? "Unpin" : "Pin"}
+        >
+          {isPinned ? (
+            <PinOff className="w-4 h-4" />
+          ) : (
+            <Pin className="w-4 h-4" />
+          )}
+        </button>
+      )}
+
+      {/* Reactions */}
+      {participant.reactions?.map((reaction, i) => (
+        <span
+          key={reaction.key}
+          className="absolute bottom-12 z-40 text-4xl pointer-events-none animate-reaction"
+          style={{ left: `${20 + ((i * 17) % 60)}%` }}
+        >
+          {reaction.emoji}
+        </span>
+      ))}
+
       {/* Overlay Info */}
       <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black to-transparent p-3 z-30">
         <div className="flex items-center justify-between">
@@ -209,6 +303,12 @@ export function VideoTile({ participant }: VideoTileProps) {
             {participant.isHost && (
               <Crown className="w-4 h-4 text-yellow-400" aria-label="Host" />
             )}
+            {participant.isSpotlighted && (
+              <Star
+                className="w-4 h-4 text-sky-400 fill-sky-400"
+                aria-label="Spotlighted"
+              />
+            )}
           </div>
           {participant.isMuted ? (
             <MicOff className="w-4 h-4 text-red-400" />
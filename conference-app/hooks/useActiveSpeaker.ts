@@ -0,0 +1,187 @@
+import { useEffect, useRef, useState } from "react";
+
+// How often audio levels are sampled
+const POLL_INTERVAL_MS = 250;
+// Levels run from 0 to 1 like getStats' audioLevel. Speaking starts above
+// the first and stops below the second, so borders do not flicker.
+const SPEAKING_START_LEVEL = 0.04;
+const SPEAKING_STOP_LEVEL = 0.02;
+// Weight of the newest sample in the smoothed level
+const SMOOTHING = 0.5;
+// How long someone must stay the loudest before taking over the stage
+const DOMINANT_SPEAKER_HOLD_MS = 1500;
+
+interface UseActiveSpeakerProps {
+  // Our own microphone, analysed locally
+  localStream: MediaStream | null;
+  // Id the local participant is reported under
+  localId: string;
+  // Latest audio level of each remote participant
+  getRemoteAudioLevels: () => Promise<Map<string, number>>;
+  enabled?: boolean;
+}
+
+interface SpeakerState {
+  smoothed: Map<string, number>;
+  speaking: Set<string>;
+  dominant: string | null;
+  // Loudest speaker waiting out the hold time, and since when
+  candidate: string | null;
+  candidateSince: number;
+}
+
+// RMS of the microphone signal, comparable to remote audio levels
+function createLevelMeter(stream: MediaStream) {
+  const context = new AudioContext();
+  const source = context.createMediaStreamSource(stream);
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 512;
+  source.connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  // Contexts created without a user gesture start suspended
+  context.resume().catch(() => {});
+
+  return {
+    level() {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (const sample of samples) sum += sample * sample;
+      return Math.sqrt(sum / samples.length);
+    },
+    close() {
+      source.disconnect();
+      context.close().catch(() => {});
+    },
+  };
+}
+
+function sameIds(a: string[], b: string[]) {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+// Who is talking, from local Web Audio analysis and the audio levels the
+// peer connections report. `dominantSpeakerId` is the remote participant
+// who talked most recently; it only changes once someone else has been
+// the loudest for a while, and stays put through silence.
+export function useActiveSpeaker({
+  localStream,
+  localId,
+  getRemoteAudioLevels,
+  enabled = true,
+}: UseActiveSpeakerProps) {
+  const [speakingIds, setSpeakingIds] = useState<string[]>([]);
+  const [dominantSpeakerId, setDominantSpeakerId] = useState<string | null>(
+    null
+  );
+  const getRemoteAudioLevelsRef = useRef(getRemoteAudioLevels);
+  const localLevelRef = useRef<() => number>(() => 0);
+  const stateRef = useRef<SpeakerState>({
+    smoothed: new Map(),
+    speaking: new Set(),
+    dominant: null,
+    candidate: null,
+    candidateSince: 0,
+  });
+
+  useEffect(() => {
+    getRemoteAudioLevelsRef.current = getRemoteAudioLevels;
+  }, [getRemoteAudioLevels]);
+
+  useEffect(() => {
+    const track = localStream?.getAudioTracks()[0];
+    if (!track) return;
+
+    const meter = createLevelMeter(new MediaStream([track]));
+    // A muted microphone counts as silent
+    localLevelRef.current = () => (track.enabled ? meter.level() : 0);
+    return () => {
+      localLevelRef.current = () => 0;
+      meter.close();
+    };
+  }, [localStream]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let polling = false;
+    const state = stateRef.current;
+
+    const poll = async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const levels = await getRemoteAudioLevelsRef.current();
+        if (cancelled) return;
+        levels.set(localId, localLevelRef.current());
+
+        // Forget participants that left or stopped reporting
+        state.smoothed.forEach((_, id) => {
+          if (levels.has(id)) return;
+          state.smoothed.delete(id);
+          state.speaking.delete(id);
+        });
+
+        levels.forEach((level, id) => {
+          const smoothed =
+            SMOOTHING * level + (1 - SMOOTHING) * (state.smoothed.get(id) ?? 0);
+          state.smoothed.set(id, smoothed);
+          if (smoothed >= SPEAKING_START_LEVEL) {
+            state.speaking.add(id);
+          } else if (smoothed < SPEAKING_STOP_LEVEL) {
+            state.speaking.delete(id);
+          }
+        });
+
+        // Our own tile never takes the stage
+        let loudest: string | null = null;
+        for (const id of state.speaking) {
+          if (id === localId) continue;
+          if (
+            loudest === null ||
+            state.smoothed.get(id)! > state.smoothed.get(loudest)!
+          ) {
+            loudest = id;
+          }
+        }
+
+        if (state.dominant && !state.smoothed.has(state.dominant)) {
+          state.dominant = null;
+        }
+        const now = Date.now();
+        if (loudest === null || loudest === state.dominant) {
+          state.candidate = null;
+        } else if (loudest !== state.candidate) {
+          state.candidate = loudest;
+          state.candidateSince = now;
+        }
+        // An empty stage is taken right away
+        if (
+          state.candidate &&
+          (state.dominant === null ||
+            now - state.candidateSince >= DOMINANT_SPEAKER_HOLD_MS)
+        ) {
+          state.dominant = state.candidate;
+          state.candidate = null;
+        }
+
+        const speaking = Array.from(state.speaking).sort();
+        setSpeakingIds((prev) => (sameIds(prev, speaking) ? prev : speaking));
+        setDominantSpeakerId(state.dominant);
+      } catch (err) {
+        console.warn("[ActiveSpeaker] Failed to read audio levels:", err);
+      } finally {
+        polling = false;
+      }
+    };
+
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled, localId]);
+
+  return { speakingIds, dominantSpeakerId };
+}
@@ -0,0 +1,423 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { nanoid } from "nanoid";
+import {
+  CHUNK_SIZE,
+  MAX_FILE_NAME_LENGTH,
+  MAX_FILE_SIZE,
+  MAX_INCOMING_BYTES_PER_PEER,
+  MAX_INCOMING_TRANSFERS_PER_PEER,
+  TRANSFER_ID_LENGTH,
+  decodeChunk,
+  encodeChunk,
+  parseControlMessage,
+  sha256Hex,
+  waitForDrain,
+  type FileControlMessage,
+} from "@/lib/file-transfer";
+
+export type FileTransferStatus =
+  | "transferring"
+  | "completed"
+  | "cancelled"
+  | "failed";
+
+export interface FileTransfer {
+  id: string;
+  direction: "send" | "receive";
+  // The other end of the transfer
+  peerId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  bytesTransferred: number;
+  status: FileTransferStatus;
+  error?: string;
+  // Object URL of a received file, set once it passed the integrity check
+  url?: string;
+}
+
+type FileOffer = Extract<FileControlMessage, { type: "file-offer" }>;
+
+interface IncomingFile {
+  offer: FileOffer;
+  peerId: string;
+  chunks: ArrayBuffer[];
+  received: number;
+}
+
+// Progress reaches React state in steps rather than on every chunk
+const PROGRESS_STEP = 256 * 1024;
+
+function sendControl(channel: RTCDataChannel, message: FileControlMessage) {
+  if (channel.readyState === "open") {
+    channel.send(JSON.stringify(message));
+  }
+}
+
+// Why an offer cannot be accepted, or null if it can
+function refuseOffer(
+  offer: FileOffer,
+  peerId: string,
+  incoming: Map<string, IncomingFile>
+): string | null {
+  if (incoming.has(offer.id)) return "Duplicate transfer";
+
+  const fromPeer = Array.from(incoming.values()).filter(
+    (file) => file.peerId === peerId
+  );
+  const bytes = fromPeer.reduce((sum, file) => sum + file.offer.size, 0);
+  if (
+    fromPeer.length >= MAX_INCOMING_TRANSFERS_PER_PEER ||
+    bytes + offer.size > MAX_INCOMING_BYTES_PER_PEER
+  ) {
+    return "Too many files at once, try again when the others finish";
+  }
+  return null;
+}
+
+// Files sent directly between peers over the data channel that useWebRTC
+// opens on every peer connection. Nothing passes through the backend.
+export function useFileTransfer() {
+  const [transfers, setTransfers] = useState<FileTransfer[]>([]);
+  const transfersRef = useRef<FileTransfer[]>([]);
+  const channelsRef = useRef(new Map<string, RTCDataChannel>());
+  const incomingRef = useRef(new Map<string, IncomingFile>());
+  // Outgoing transfers stop before their next chunk once listed here
+  const cancelledRef = useRef(new Set<string>());
+
+  // Keep ref in sync with state
+  useEffect(() => {
+    transfersRef.current = transfers;
+  }, [transfers]);
+
+  const updateTransfer = useCallback(
+    (id: string, patch: Partial<FileTransfer>) => {
+      setTransfers((prev) =>
+        prev.map((t) => (t.id === id ? { ...t, ...patch } : t))
+      );
+    },
+    []
+  );
+
+  // Only transfers still in flight can end as cancelled or failed
+  const endTransfer = useCallback(
+    (id: string, status: "cancelled" | "failed", error?: string) => {
+      setTransfers((prev) =>
+        prev.map((t) =>
+          t.id === id && t.status === "transferring"
+            ? { ...t, status, error }
+            : t
+        )
+      );
+    },
+    []
+  );
+
+  const finishIncoming = useCallback(
+    async (id: string) => {
+      const incoming = incomingRef.current.get(id);
+      if (!incoming) return;
+      incomingRef.current.delete(id);
+
+      // Served as a download only, whatever type the sender claimed
+      const blob = new Blob(incoming.chunks, {
+        type: "application/octet-stream",
+      });
+      if (
+        blob.size !== incoming.offer.size ||
+        (await sha256Hex(blob)) !== incoming.offer.sha256
+      ) {
+        console.warn(`[Files] Integrity check failed for ${id}`);
+        endTransfer(id, "failed", "Integrity check failed");
+        return;
+      }
+
+      updateTransfer(id, {
+        status: "completed",
+        bytesTransferred: blob.size,
+        url: URL.createObjectURL(blob),
+      });
+    },
+    [endTransfer, updateTransfer]
+  );
+
+  const handleControlMessage = useCallback(
+    (peerId: string, channel: RTCDataChannel, message: FileControlMessage) => {
+      switch (message.type) {
+        case "file-offer":
+          const refused = refuseOffer(message, peerId, incomingRef.current);
+          if (refused) {
+            console.warn(`[Files] Refused offer from ${peerId}: ${refused}`);
+            sendControl(channel, {
+              type: "file-cancel",
+              id: message.id,
+              reason: refused,
+            });
+            return;
+          }
+          console.log(`[Files] Receiving ${message.name} from ${peerId}`);
+          incomingRef.current.set(message.id, {
+            offer: message,
+            peerId,
+            chunks: [],
+            received: 0,
+          });
+          setTransfers((prev) => [
+            ...prev,
+            {
+              id: message.id,
+              direction: "receive",
+              peerId,
+              name: message.name,
+              size: message.size,
+              mimeType: message.mimeType,
+              bytesTransferred: 0,
+              status: "transferring",
+            },
+          ]);
+          break;
+
+        case "file-end":
+          if (incomingRef.current.get(message.id)?.peerId === peerId) {
+            finishIncoming(message.id).catch((error) => {
+              console.error("[Files] Failed to finish transfer:", error);
+              endTransfer(message.id, "failed", "Failed to read file");
+            });
+          }
+          break;
+
+        case "file-cancel":
+          console.log(`[Files] ${peerId} cancelled transfer ${message.id}`);
+          if (incomingRef.current.get(message.id)?.peerId === peerId) {
+            incomingRef.current.delete(message.id);
+          } else {
+            cancelledRef.current.add(message.id);
+          }
+          endTransfer(message.id, "cancelled", message.reason);
+          break;
+      }
+    },
+    [endTransfer, finishIncoming]
+  );
+
+  const handleChunk = useCallback(
+    (peerId: string, channel: RTCDataChannel, chunk: ArrayBuffer) => {
+      const { transferId, data } = decodeChunk(chunk);
+      const incoming = incomingRef.current.get(transferId);
+      if (!incoming || incoming.peerId !== peerId) return;
+
+      const previous = incoming.received;
+      incoming.chunks.push(data);
+      incoming.received += data.byteLength;
+
+      if (incoming.received > incoming.offer.size) {
+        incomingRef.current.delete(transferId);
+        sendControl(channel, {
+          type: "file-cancel",
+          id: transferId,
+          reason: "More data than announced",
+        });
+        endTransfer(transferId, "failed", "More data than announced");
+        return;
+      }
+
+      if (
+        Math.floor(incoming.received / PROGRESS_STEP) !==
+        Math.floor(previous / PROGRESS_STEP)
+      ) {
+        updateTransfer(transferId, { bytesTransferred: incoming.received });
+      }
+    },
+    [endTransfer, updateTransfer]
+  );
+
+  // The peer is gone; anything in flight with it has failed. Closing a peer
+  // connection locally does not fire `close` on its channels, so the room
+  // calls this itself when a participant leaves or is removed.
+  const detachChannel = useCallback(
+    (peerId: string) => {
+      channelsRef.current.delete(peerId);
+      transfersRef.current
+        .filter((t) => t.peerId === peerId && t.status === "transferring")
+        .forEach((t) => {
+          incomingRef.current.delete(t.id);
+          cancelledRef.current.add(t.id);
+          endTransfer(t.id, "failed", "Connection closed");
+        });
+    },
+    [endTransfer]
+  );
+
+  // Called by useWebRTC for every peer connection it creates
+  const attachChannel = useCallback(
+    (peerId: string, channel: RTCDataChannel) => {
+      // A new connection to the same peer replaces the old one
+      if (channelsRef.current.has(peerId)) {
+        detachChannel(peerId);
+      }
+      channelsRef.current.set(peerId, channel);
+
+      channel.onmessage = (event) => {
+        if (typeof event.data === "string") {
+          const message = parseControlMessage(event.data);
+          if (message) handleControlMessage(peerId, channel, message);
+        } else {
+          handleChunk(peerId, channel, event.data);
+        }
+      };
+      channel.onclose = () => {
+        if (channelsRef.current.get(peerId) === channel) {
+          detachChannel(peerId);
+        }
+      };
+    },
+    [handleControlMessage, handleChunk, detachChannel]
+  );
+
+  const sendToPeer = useCallback(
+    async (
+      peerId: string,
+      channel: RTCDataChannel,
+      file: File,
+      sha256: string
+    ) => {
+      const id = nanoid(TRANSFER_ID_LENGTH);
+      setTransfers((prev) => [
+        ...prev,
+        {
+          id,
+          direction: "send",
+          peerId,
+          name: file.name,
+          size: file.size,
+          mimeType: file.type,
+          bytesTransferred: 0,
+          status: "transferring",
+        },
+      ]);
+
+      sendControl(channel, {
+        type: "file-offer",
+        id,
+        name: file.name,
+        size: file.size,
+        mimeType: file.type || "application/octet-stream",
+        sha256,
+      });
+
+      let offset = 0;
+      let reported = 0;
+      try {
+        while (offset < file.size) {
+          if (cancelledRef.current.has(id)) return;
+          await waitForDrain(channel);
+          if (channel.readyState !== "open") {
+            throw new Error("Connection closed");
+          }
+
+          const data = await file
+            .slice(offset, offset + CHUNK_SIZE)
+            .arrayBuffer();
+          channel.send(encodeChunk(id, data));
+          offset += data.byteLength;
+
+          if (offset - reported >= PROGRESS_STEP) {
+            reported = offset;
+            updateTransfer(id, { bytesTransferred: offset });
+          }
+        }
+
+        if (cancelledRef.current.has(id)) return;
+        sendControl(channel, { type: "file-end", id });
+        updateTransfer(id, { status: "completed", bytesTransferred: offset });
+        console.log(`[Files] Sent ${file.name} to ${peerId}`);
+      } catch (error) {
+        console.error(
+          `[Files] Failed to send ${file.name} to ${peerId}:`,
+          error
+        );
+        endTransfer(
+          id,
+          "failed",
+          error instanceof Error ? error.message : "Transfer failed"
+        );
+      }
+    },
+    [endTransfer, updateTransfer]
+  );
+
+  // Send to one participant, or to everyone connected when `to` is omitted.
+  // Returns an error message if nothing could be sent.
+  const sendFile = useCallback(
+    async (file: File, to?: string): Promise<string | null> => {
+      // Offers outside these limits are dropped by the receiver
+      if (file.size > MAX_FILE_SIZE) {
+        return `Files can be at most ${MAX_FILE_SIZE / (1024 * 1024)} MB`;
+      }
+      if (file.size === 0) return "Empty files cannot be sent";
+      if (file.name.length > MAX_FILE_NAME_LENGTH) {
+        return "The file name is too long";
+      }
+
+      const targets = Array.from(channelsRef.current).filter(
+        ([peerId, channel]) =>
+          (to === undefined || peerId === to) && channel.readyState === "open"
+      );
+      if (targets.length === 0) {
+        return "No one is connected to receive the file";
+      }
+
+      const sha256 = await sha256Hex(file);
+      targets.forEach(([peerId, channel]) => {
+        sendToPeer(peerId, channel, file, sha256);
+      });
+      return null;
+    },
+    [sendToPeer]
+  );
+
+  const cancelTransfer = useCallback(
+    (id: string) => {
+      const transfer = transfersRef.current.find((t) => t.id === id);
+      if (!transfer || transfer.status !== "transferring") return;
+
+      if (transfer.direction === "send") {
+        cancelledRef.current.add(id);
+      } else {
+        incomingRef.current.delete(id);
+      }
+
+      const channel = channelsRef.current.get(transfer.peerId);
+      if (channel) {
+        sendControl(channel, { type: "file-cancel", id });
+      }
+      endTransfer(id, "cancelled");
+    },
+    [endTransfer]
+  );
+
+  // Remove a finished transfer from the list and release its file
+  const dismissTransfer = useCallback((id: string) => {
+    const transfer = transfersRef.current.find((t) => t.id === id);
+    if (transfer?.url) URL.revokeObjectURL(transfer.url);
+    setTransfers((prev) => prev.filter((t) => t.id !== id));
+  }, []);
+
+  // Release received files on unmount
+  useEffect(() => {
+    return () => {
+      transfersRef.current.forEach((t) => {
+        if (t.url) URL.revokeObjectURL(t.url);
+      });
+    };
+  }, []);
+
+  return {
+    transfers,
+    sendFile,
+    cancelTransfer,
+    dismissTransfer,
+    attachChannel,
+    detachChannel,
+  };
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 
 interface MediaStreamOptions {
   audio?: boolean | MediaTrackConstraints;
@@ -23,6 +23,8 @@ export function useMediaStream({
   const [isLoading, setIsLoading] = useState(false);
   const [isMicEnabled, setIsMicEnabled] = useState(true);
   const [isCameraEnabled, setIsCameraEnabled] = useState(true);
+  const [screenStream, setScreenStream] = useState<MediaStream | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(null);
 
   const getMediaStream = useCallback(async () => {
     setIsLoading(true);
@@ -85,6 +87,42 @@ export function useMediaStream({
     }
   }, [stream, onVideoToggle]);
 
+  const stopScreenShare = useCallback(() => {
+    const current = screenStreamRef.current;
+    if (!current) return;
+
+    current.getTracks().forEach((track) => track.stop());
+    screenStreamRef.current = null;
+    setScreenStream(null);
+  }, []);
+
+  // Resolves to null when the user closes the browser's picker
+  const startScreenShare = useCallback(async () => {
+    if (screenStreamRef.current) return screenStreamRef.current;
+
+    try {
+      const displayStream = await navigator.mediaDevices.getDisplayMedia({
+        video: true,
+        audio: false,
+      });
+
+      // The browser's own "Stop sharing" button ends the track
+      displayStream.getVideoTracks()[0]?.addEventListener("ended", () => {
+        if (screenStreamRef.current === displayStream) {
+          console.log("[useMediaStream] Screen share ended by the browser");
+          stopScreenShare();
+        }
+      });
+
+      screenStreamRef.current = displayStream;
+      setScreenStream(displayStream);
+      return displayStream;
+    } catch (err) {
+      console.warn("[useMediaStream] Screen share not started:", err);
+      return null;
+    }
+  }, [stopScreenShare]);
+
   const stopStream = useCallback(() => {
     if (stream) {
       stream.getTracks().forEach((track) => {
@@ -92,7 +130,8 @@ export function useMediaStream({
       });
       setStream(null);
     }
-  }, [stream]);
+    stopScreenShare();
+  }, [stream, stopScreenShare]);
 
   useEffect(() => {
     if (autoStart) {
@@ -115,5 +154,8 @@ export function useMediaStream({
     toggleCamera,
     stopStream,
     getMediaStream,
+    screenStream,
+    startScreenShare,
+    stopScreenShare,
   };
 }
@@ -1,49 +1,216 @@
 import { useEffect, useRef, useCallback, useState } from "react";
 import { useWebSocket } from "./useWebSocket";
+import { createFileChannel } from "@/lib/file-transfer";
+import {
+  fetchIceConfig,
+  refreshDelay,
+  toRTCConfiguration,
+  type IceConfig,
+} from "@/lib/ice-servers";
+import type {
+  ChatMessage,
+  ClientMessage,
+  ForwardedTrack,
+  ParticipantProfile,
+  PublishedTrack,
+  RaisedHand,
+  Reaction,
+  ServerMessage,
+  Topology,
+} from "@shared/protocol";
+
+// "reconnecting" while an ICE restart or rebuild is under way; "failed" once
+// recovery has given up
+export type PeerConnectionStatus =
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "failed";
 
 interface Participant {
   id: string;
   stream?: MediaStream;
+  // The participant's screen share, received as a separate stream
+  screenStream?: MediaStream;
   peerConnection?: RTCPeerConnection;
   pendingCandidates?: RTCIceCandidateInit[];
   isMuted?: boolean;
   audioEnabled?: boolean;
+  profile?: ParticipantProfile;
+  connectionState?: PeerConnectionStatus;
+}
+
+// Someone knocking on the lobby, as seen by the host
+export interface WaitingParticipant {
+  id: string;
+  name: string;
+}
+
+export type LobbyStatus = "waiting" | "denied" | null;
+
+// A reaction currently floating over someone's tile
+export interface ActiveReaction {
+  key: string;
+  participantId: string;
+  emoji: Reaction;
+}
+
+// Per-connection state of the perfect negotiation pattern
+// (https://w3c.github.io/webrtc-pc/#perfect-negotiation-example)
+interface NegotiationState {
+  // Gives way when both sides offer at once; the other side is impolite
+  polite: boolean;
+  // Set until the first offer arrives on connections the peer initiates
+  awaitingFirstOffer: boolean;
+  makingOffer: boolean;
+  ignoreOffer: boolean;
+  isSettingRemoteAnswerPending: boolean;
+  // The next offer replaces the peer's connection as well
+  reset: boolean;
+}
+
+// Connection recovery: ICE restarts with exponential backoff, then the peer
+// connection is rebuilt from scratch. "disconnected" often clears up by
+// itself, so it gets a grace period first; "failed" is acted on right away.
+const DISCONNECTED_GRACE_MS = 3000;
+const RECOVERY_BASE_DELAY_MS = 1000;
+const MAX_RECOVERY_DELAY_MS = 16000;
+const MAX_ICE_RESTARTS = 3;
+const MAX_RECOVERY_ATTEMPTS = 5;
+
+interface Recovery {
+  attempts: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+// How long a reaction stays on screen
+const REACTION_DURATION_MS = 3000;
+
+// Put our camera and screen share on the transceivers the SFU receives them
+// on. Streams left undefined keep their current tracks; swapping tracks
+// needs no renegotiation.
+async function publishToSfu(
+  pc: RTCPeerConnection,
+  publish: PublishedTrack[],
+  streams: { camera?: MediaStream | null; screen?: MediaStream | null }
+) {
+  await Promise.all(
+    publish.map(async ({ mid, kind, screen }) => {
+      const stream = screen ? streams.screen : streams.camera;
+      const transceiver = pc.getTransceivers().find((t) => t.mid === mid);
+      if (stream === undefined || !transceiver) return;
+
+      const track = stream?.getTracks().find((t) => t.kind === kind) ?? null;
+      transceiver.direction = "sendonly";
+      if (transceiver.sender.track !== track) {
+        await transceiver.sender.replaceTrack(track);
+      }
+    })
+  );
+}
+
+function toConnectionStatus(
+  state: RTCPeerConnectionState
+): PeerConnectionStatus {
+  switch (state) {
+    case "connected":
+      return "connected";
+    case "disconnected":
+      return "reconnecting";
+    case "failed":
+    case "closed":
+      return "failed";
+    default:
+      return "connecting";
+  }
 }
 
 interface UseWebRTCProps {
   roomId: string;
   participantId: string;
   localStream: MediaStream | null;
+  // Published to every peer alongside the camera while set
+  screenStream?: MediaStream | null;
   enabled?: boolean;
-  onParticipantLeft?: (participantId: string) => void;
-  onParticipantJoined?: (participantId: string) => void;
+  passcode?: string;
+  onParticipantLeft?: (
+    participantId: string,
+    profile?: ParticipantProfile
+  ) => void;
+  onParticipantJoined?: (
+    participantId: string,
+    profile?: ParticipantProfile
+  ) => void;
   onKicked?: () => void;
   onMuted?: (muted: boolean) => void;
+  onRoomFull?: (maxParticipants: number) => void;
+  // Receives the file-sharing data channel of every new peer connection
+  onDataChannel?: (participantId: string, channel: RTCDataChannel) => void;
+  // The host lowered our raised hand
+  onHandLowered?: () => void;
 }
 
-const ICE_SERVERS: RTCConfiguration = {
-  iceServers: [
-    { urls: "stun:stun.l.google.com:19302" },
-    { urls: "stun:stun1.l.google.com:19302" },
-  ],
-};
+// Delay before asking an unreachable backend for ICE servers again
+const ICE_CONFIG_RETRY_MS = 5000;
 
 export function useWebRTC({
   roomId,
   participantId,
   localStream,
+  screenStream = null,
   enabled = true,
+  passcode,
   onParticipantLeft,
   onParticipantJoined,
   onKicked,
   onMuted,
+  onRoomFull,
+  onDataChannel,
+  onHandLowered,
 }: UseWebRTCProps) {
   const [participants, setParticipants] = useState<Map<string, Participant>>(
     new Map()
   );
   const participantsRef = useRef<Map<string, Participant>>(new Map());
   const [error, setError] = useState<string | null>(null);
-  const sendMessageRef = useRef<((msg: any) => void) | null>(null);
+  const [lobbyStatus, setLobbyStatus] = useState<LobbyStatus>(null);
+  const [waitingParticipants, setWaitingParticipants] = useState<
+    WaitingParticipant[]
+  >([]);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [privateChatEnabled, setPrivateChatEnabled] = useState(true);
+  const [raisedHands, setRaisedHands] = useState<RaisedHand[]>([]);
+  const [reactions, setReactions] = useState<ActiveReaction[]>([]);
+  // Joining waits until the ICE servers are known
+  const [iceConfig, setIceConfig] = useState<IceConfig | null>(null);
+  const iceConfigRef = useRef<IceConfig | null>(null);
+  const [screenShareHostsOnly, setScreenShareHostsOnlyState] = useState(false);
+  // Participant a host featured in everyone's layout
+  const [spotlightId, setSpotlightId] = useState<string | null>(null);
+  const screenStreamRef = useRef<MediaStream | null>(screenStream);
+  // Screen share stream id each peer named in its latest offer
+  const remoteScreenStreamIdsRef = useRef(new Map<string, string>());
+  const negotiationStatesRef = useRef(
+    new WeakMap<RTCPeerConnection, NegotiationState>()
+  );
+  const recoveriesRef = useRef(new Map<string, Recovery>());
+  // Latest createPeerConnection, for rebuilds scheduled by older renders
+  const createPeerConnectionRef = useRef<
+    ((peerId: string, initiator: boolean) => RTCPeerConnection) | null
+  >(null);
+  const sendMessageRef = useRef<((msg: ClientMessage) => void) | null>(null);
+  // In SFU rooms media goes through one connection to the server and the
+  // peer connections only carry data channels
+  const topologyRef = useRef<Topology>("mesh");
+  const sfuConnectionRef = useRef<RTCPeerConnection | null>(null);
+  const [sfuConnectionState, setSfuConnectionState] =
+    useState<PeerConnectionStatus | null>(null);
+  // Where the SFU receives our own tracks, from its latest offer
+  const sfuPublishRef = useRef<PublishedTrack[]>([]);
+  const sfuPendingCandidatesRef = useRef<RTCIceCandidateInit[]>([]);
+  const sfuRecoveryRef = useRef<Recovery | null>(null);
+  // Forwarded streams by `${participantId}:camera` or `:screen`
+  const sfuStreamsRef = useRef(new Map<string, MediaStream>());
   // Store the original audio track for replaceTrack when unmuting
   const originalAudioTrackRef = useRef<MediaStreamTrack | null>(null);
 
@@ -52,16 +219,166 @@ export function useWebRTC({
     participantsRef.current = participants;
   }, [participants]);
 
+  const updateParticipant = useCallback(
+    (peerId: string, patch: Partial<Participant>) => {
+      setParticipants((prev) => {
+        const participant = prev.get(peerId);
+        if (!participant) return prev;
+        const newMap = new Map(prev);
+        newMap.set(peerId, { ...participant, ...patch });
+        return newMap;
+      });
+    },
+    []
+  );
+
+  // Every offer carries our current screen share so the peer can tell its
+  // tracks apart from the camera
+  const sendOffer = useCallback((peerId: string, pc: RTCPeerConnection) => {
+    const negotiation = negotiationStatesRef.current.get(pc);
+    if (sendMessageRef.current) {
+      sendMessageRef.current({
+        type: "offer",
+        to: peerId,
+        sdp: pc.localDescription!,
+        screenStreamId:
+          topologyRef.current === "mesh"
+            ? screenStreamRef.current?.id
+            : undefined,
+        reset: negotiation?.reset || undefined,
+      });
+      if (negotiation) negotiation.reset = false;
+    } else {
+      console.error(
+        "[useWebRTC] ❌ Cannot send offer - sendMessageRef is null!"
+      );
+    }
+  }, []);
+
+  // Swap in a new connection to a peer. The ref is updated right away so
+  // the signaling messages that follow already reach the new connection.
+  const replacePeerConnection = useCallback(
+    (peerId: string, pc: RTCPeerConnection) => {
+      const participant = participantsRef.current.get(peerId);
+      participant?.peerConnection?.close();
+
+      const replaced: Participant = {
+        ...participant,
+        id: peerId,
+        peerConnection: pc,
+        pendingCandidates: [],
+      };
+      participantsRef.current = new Map(participantsRef.current).set(
+        peerId,
+        replaced
+      );
+      setParticipants((prev) =>
+        new Map(prev).set(peerId, {
+          ...prev.get(peerId),
+          ...replaced,
+        })
+      );
+    },
+    []
+  );
+
+  const stopRecovery = useCallback((peerId: string) => {
+    const recovery = recoveriesRef.current.get(peerId);
+    if (recovery?.timer) clearTimeout(recovery.timer);
+    recoveriesRef.current.delete(peerId);
+  }, []);
+
+  // Schedule the next recovery step for a connection that dropped. Only the
+  // impolite side rebuilds, so the two ends never replace their connections
+  // at the same time; the polite side waits for the reset offer.
+  const recoverConnection = useCallback(
+    (peerId: string) => {
+      let recovery = recoveriesRef.current.get(peerId);
+      if (!recovery) {
+        recovery = { attempts: 0, timer: null };
+        recoveriesRef.current.set(peerId, recovery);
+      }
+      if (recovery.timer) return;
+
+      const current = recovery;
+      const state =
+        participantsRef.current.get(peerId)?.peerConnection?.connectionState;
+      let delay = state === "failed" ? 0 : DISCONNECTED_GRACE_MS;
+      if (current.attempts > 0) {
+        delay = Math.min(
+          RECOVERY_BASE_DELAY_MS * 2 ** (current.attempts - 1),
+          MAX_RECOVERY_DELAY_MS
+        );
+      }
+
+      current.timer = setTimeout(() => {
+        current.timer = null;
+        const pc = participantsRef.current.get(peerId)?.peerConnection;
+        if (!pc || recoveriesRef.current.get(peerId) !== current) return;
+
+        if (pc.connectionState === "connected") {
+          recoveriesRef.current.delete(peerId);
+          return;
+        }
+        if (current.attempts >= MAX_RECOVERY_ATTEMPTS) {
+          console.warn(`[Recovery] Giving up on the connection to ${peerId}`);
+          updateParticipant(peerId, { connectionState: "failed" });
+          return;
+        }
+
+        current.attempts += 1;
+        if (current.attempts <= MAX_ICE_RESTARTS) {
+          console.log(
+            `[Recovery] ICE restart ${current.attempts} for ${peerId}`
+          );
+          // Fires negotiationneeded, which sends an ICE restart offer
+          pc.restartIce();
+        } else if (!negotiationStatesRef.current.get(pc)?.polite) {
+          console.log(`[Recovery] Rebuilding the connection to ${peerId}`);
+          const rebuilt = createPeerConnectionRef.current!(peerId, true);
+          negotiationStatesRef.current.get(rebuilt)!.reset = true;
+          replacePeerConnection(peerId, rebuilt);
+        } else {
+          console.log(
+            `[Recovery] Waiting for ${peerId} to rebuild the connection`
+          );
+        }
+
+        // Check back later; a connected state ends recovery first
+        recoverConnection(peerId);
+      }, delay);
+    },
+    [replacePeerConnection, updateParticipant]
+  );
+
+  // The joiner initiates: it offers first to everyone already in the room,
+  // who wait for that offer before renegotiating anything themselves
   const createPeerConnection = useCallback(
-    (peerId: string): RTCPeerConnection => {
-      const pc = new RTCPeerConnection(ICE_SERVERS);
+    (peerId: string, initiator: boolean): RTCPeerConnection => {
+      const pc = new RTCPeerConnection(
+        iceConfigRef.current ? toRTCConfiguration(iceConfigRef.current) : {}
+      );
       console.log(
         `Creating peer connection for ${peerId}, localStream available:`,
         !!localStream
       );
 
+      const negotiation: NegotiationState = {
+        // Both ends compare the same two ids, so exactly one is polite
+        polite: participantId > peerId,
+        awaitingFirstOffer: !initiator,
+        makingOffer: false,
+        ignoreOffer: false,
+        isSettingRemoteAnswerPending: false,
+        reset: false,
+      };
+      negotiationStatesRef.current.set(pc, negotiation);
+
       // Add local tracks to peer connection
-      if (localStream) {
+      const meshMedia = topologyRef.current === "mesh";
+      if (!meshMedia) {
+        console.log(`Media for ${peerId} goes through the SFU`);
+      } else if (localStream) {
         localStream.getTracks().forEach((track) => {
           console.log(
             `Adding ${track.kind} track (${track.id}) to peer connection for ${peerId}, enabled=${track.enabled}`
@@ -74,6 +391,15 @@ export function useWebRTC({
         );
       }
 
+      // After the camera, so an offer from the peer claims the camera
+      // transceivers and the screen is added by renegotiation
+      const screen = meshMedia ? screenStreamRef.current : null;
+      screen?.getTracks().forEach((track) => pc.addTrack(track, screen));
+
+      // Created before any offer so the channel is part of the first
+      // negotiation
+      onDataChannel?.(peerId, createFileChannel(pc));
+
       // Handle incoming tracks
       pc.ontrack = (event) => {
         console.log(
@@ -88,6 +414,9 @@ export function useWebRTC({
           }
         );
 
+        // Leftovers from before the room moved its media to the SFU
+        if (topologyRef.current === "sfu") return;
+
         const [remoteStream] = event.streams;
 
         if (!remoteStream) {
@@ -111,6 +440,12 @@ export function useWebRTC({
           })),
         });
 
+        if (remoteStream.id === remoteScreenStreamIdsRef.current.get(peerId)) {
+          console.log(`[Track] Screen share from ${peerId}`);
+          updateParticipant(peerId, { screenStream: remoteStream });
+          return;
+        }
+
         // Listen for track state changes
         event.track.onended = () => {
           console.log(`[Track] Track ${event.track.kind} from ${peerId} ended`);
@@ -146,7 +481,6 @@ export function useWebRTC({
           if (sendMessageRef.current) {
             sendMessageRef.current({
               type: "ice-candidate",
-              from: participantId,
               to: peerId,
               candidate: event.candidate.toJSON(),
             });
@@ -159,7 +493,6 @@ export function useWebRTC({
               if (sendMessageRef.current) {
                 sendMessageRef.current({
                   type: "ice-candidate",
-                  from: participantId,
                   to: peerId,
                   candidate: event.candidate!.toJSON(),
                 });
@@ -193,15 +526,27 @@ export function useWebRTC({
 
       pc.onconnectionstatechange = () => {
         console.log(`[Connection] State with ${peerId}: ${pc.connectionState}`);
+        // Connections replaced by a rebuild are closed and ignored
+        if (participantsRef.current.get(peerId)?.peerConnection !== pc) return;
+
         if (
           pc.connectionState === "failed" ||
           pc.connectionState === "disconnected"
         ) {
-          // Handle reconnection or cleanup
-          console.log(`Connection to ${peerId} ${pc.connectionState}`);
-        }
-        if (pc.connectionState === "connected") {
+          console.log(
+            `[Connection] Connection to ${peerId} ${pc.connectionState}, recovering`
+          );
+          updateParticipant(peerId, { connectionState: "reconnecting" });
+          recoverConnection(peerId);
+        } else if (pc.connectionState === "connected") {
           console.log(`[Connection] ✅ Fully connected to ${peerId}!`);
+          stopRecovery(peerId);
+          updateParticipant(peerId, { connectionState: "connected" });
+        } else if (
+          pc.connectionState === "connecting" &&
+          !recoveriesRef.current.has(peerId)
+        ) {
+          updateParticipant(peerId, { connectionState: "connecting" });
         }
       };
 
@@ -209,15 +554,48 @@ export function useWebRTC({
         console.log(`[Signaling] State with ${peerId}: ${pc.signalingState}`);
       };
 
-      pc.onnegotiationneeded = () => {
-        console.log(`[Negotiation] Negotiation needed for ${peerId}`);
+      // Every offer, the first one included, starts here: adding, removing
+      // or redirecting a track or transceiver fires negotiationneeded
+      pc.onnegotiationneeded = async () => {
+        if (negotiation.awaitingFirstOffer) {
+          console.log(
+            `[Negotiation] Negotiation needed for ${peerId}, waiting for their offer`
+          );
+          return;
+        }
+
+        try {
+          negotiation.makingOffer = true;
+          await pc.setLocalDescription();
+          console.log(`[Negotiation] Sending offer to ${peerId}`);
+          sendOffer(peerId, pc);
+        } catch (err) {
+          console.error(
+            `[Negotiation] Failed to create offer for ${peerId}:`,
+            err
+          );
+        } finally {
+          negotiation.makingOffer = false;
+        }
       };
 
       return pc;
     },
-    [localStream, participantId]
+    [
+      localStream,
+      participantId,
+      onDataChannel,
+      sendOffer,
+      updateParticipant,
+      recoverConnection,
+      stopRecovery,
+    ]
   );
 
+  useEffect(() => {
+    createPeerConnectionRef.current = createPeerConnection;
+  }, [createPeerConnection]);
+
   // Helper function to process queued ICE candidates
   const processQueuedCandidates = useCallback(
     async (peerId: string, pc: RTCPeerConnection) => {
@@ -248,12 +626,226 @@ export function useWebRTC({
     []
   );
 
+  const stopSfuRecovery = useCallback(() => {
+    const recovery = sfuRecoveryRef.current;
+    if (recovery?.timer) clearTimeout(recovery.timer);
+    sfuRecoveryRef.current = null;
+  }, []);
+
+  // The one connection to the SFU: our media goes up once and everyone
+  // else's comes down on it. The server makes every offer.
+  const createSfuConnection = useCallback(() => {
+    const pc = new RTCPeerConnection(
+      iceConfigRef.current ? toRTCConfiguration(iceConfigRef.current) : {}
+    );
+
+    pc.onicecandidate = (event) => {
+      if (event.candidate) {
+        sendMessageRef.current?.({
+          type: "sfu-ice-candidate",
+          candidate: event.candidate.toJSON(),
+        });
+      }
+    };
+
+    // Only the server offers, so recovery asks it for an ICE restart offer,
+    // backing off like the peer connections do
+    const recover = () => {
+      const recovery = sfuRecoveryRef.current ?? { attempts: 0, timer: null };
+      sfuRecoveryRef.current = recovery;
+      if (recovery.timer) return;
+
+      let delay = pc.connectionState === "failed" ? 0 : DISCONNECTED_GRACE_MS;
+      if (recovery.attempts > 0) {
+        delay = Math.min(
+          RECOVERY_BASE_DELAY_MS * 2 ** (recovery.attempts - 1),
+          MAX_RECOVERY_DELAY_MS
+        );
+      }
+
+      recovery.timer = setTimeout(() => {
+        recovery.timer = null;
+        if (
+          sfuConnectionRef.current !== pc ||
+          sfuRecoveryRef.current !== recovery
+        ) {
+          return;
+        }
+        if (recovery.attempts >= MAX_RECOVERY_ATTEMPTS) {
+          console.warn("[SFU] Giving up on the connection to the server");
+          setSfuConnectionState("failed");
+          return;
+        }
+
+        recovery.attempts += 1;
+        console.log(`[SFU] Asking for ICE restart ${recovery.attempts}`);
+        sendMessageRef.current?.({ type: "sfu-restart" });
+        recover();
+      }, delay);
+    };
+
+    pc.onconnectionstatechange = () => {
+      console.log(`[SFU] Connection state: ${pc.connectionState}`);
+      if (sfuConnectionRef.current !== pc) return;
+
+      if (
+        pc.connectionState === "failed" ||
+        pc.connectionState === "disconnected"
+      ) {
+        setSfuConnectionState("reconnecting");
+        recover();
+        return;
+      }
+      if (pc.connectionState === "connected") {
+        stopSfuRecovery();
+      }
+      setSfuConnectionState(toConnectionStatus(pc.connectionState));
+    };
+
+    sfuConnectionRef.current = pc;
+    setSfuConnectionState("connecting");
+    return pc;
+  }, [stopSfuRecovery]);
+
+  const closeSfuConnection = useCallback(() => {
+    stopSfuRecovery();
+    sfuConnectionRef.current?.close();
+    sfuConnectionRef.current = null;
+    sfuPublishRef.current = [];
+    sfuPendingCandidatesRef.current = [];
+    sfuStreamsRef.current = new Map();
+    setSfuConnectionState(null);
+  }, [stopSfuRecovery]);
+
+  // Media moves to the SFU, which then sends its own offer
+  const switchTopology = useCallback((topology: Topology) => {
+    if (topology === topologyRef.current) return;
+    console.log(
+      `[SFU] Room switched to ${topology}, moving media off the peer connections`
+    );
+    topologyRef.current = topology;
+    remoteScreenStreamIdsRef.current.clear();
+    // Removing the senders renegotiates; the connections stay up
+    // for their data channels
+    participantsRef.current.forEach(({ peerConnection }) => {
+      if (!peerConnection || peerConnection.signalingState === "closed") return;
+      peerConnection
+        .getSenders()
+        .filter((sender) => sender.track)
+        .forEach((sender) => peerConnection.removeTrack(sender));
+    });
+    if (screenStreamRef.current) {
+      sendMessageRef.current?.({ type: "sfu-screen", sharing: true });
+    }
+  }, []);
+
+  // Group forwarded tracks into a camera and a screen stream per
+  // participant. Streams are kept while their tracks stay the same so video
+  // elements are not reset by every renegotiation.
+  const applySfuTracks = useCallback(
+    (pc: RTCPeerConnection, tracks: ForwardedTrack[]) => {
+      const grouped = new Map<string, MediaStreamTrack[]>();
+      tracks.forEach(({ mid, participantId: peerId, screen }) => {
+        const track = pc.getTransceivers().find((t) => t.mid === mid)
+          ?.receiver.track;
+        if (!track) return;
+        const key = `${peerId}:${screen ? "screen" : "camera"}`;
+        grouped.set(key, [...(grouped.get(key) ?? []), track]);
+      });
+
+      const streams = new Map<string, MediaStream>();
+      grouped.forEach((groupTracks, key) => {
+        const existing = sfuStreamsRef.current.get(key);
+        const unchanged =
+          existing?.getTracks().length === groupTracks.length &&
+          groupTracks.every((t) => existing.getTracks().includes(t));
+        streams.set(
+          key,
+          unchanged && existing ? existing : new MediaStream(groupTracks)
+        );
+      });
+      sfuStreamsRef.current = streams;
+
+      setParticipants((prev) => {
+        const newMap = new Map(prev);
+        newMap.forEach((participant, peerId) => {
+          newMap.set(peerId, {
+            ...participant,
+            stream: streams.get(`${peerId}:camera`),
+            screenStream: streams.get(`${peerId}:screen`),
+          });
+        });
+        return newMap;
+      });
+    },
+    []
+  );
+
+  const showReaction = useCallback((peerId: string, emoji: Reaction) => {
+    const key = `${peerId}-${Date.now()}-${Math.random()}`;
+    setReactions((prev) => [...prev, { key, participantId: peerId, emoji }]);
+    setTimeout(() => {
+      setReactions((prev) => prev.filter((r) => r.key !== key));
+    }, REACTION_DURATION_MS);
+  }, []);
+
   const handleSignalingMessage = useCallback(
-    async (message: any) => {
+    async (message: ServerMessage) => {
       try {
         switch (message.type) {
           case "participants":
-            // Existing participants in the room
+            // A resumed session keeps its peer connections and catches up
+            // on room state that changed while we were away
+            setLobbyStatus(null);
+            if (message.resumed) {
+              console.log("Signaling session resumed");
+              // Older servers send no state along; keep what we have
+              const missed = message.chatHistory ?? [];
+              setChatMessages((prev) => {
+                const known = new Set(prev.map((m) => m.id));
+                const added = missed.filter((m) => !known.has(m.id));
+                return added.length === 0
+                  ? prev
+                  : [...prev, ...added].sort((a, b) =>
+                      a.sentAt.localeCompare(b.sentAt)
+                    );
+              });
+              if (message.privateChatEnabled !== undefined) {
+                setPrivateChatEnabled(message.privateChatEnabled);
+              }
+              if (message.raisedHands) setRaisedHands(message.raisedHands);
+              if (message.screenShareHostsOnly !== undefined) {
+                setScreenShareHostsOnlyState(message.screenShareHostsOnly);
+              }
+              if (message.spotlightId !== undefined) {
+                setSpotlightId(message.spotlightId);
+              }
+              if (message.topology) switchTopology(message.topology);
+            } else {
+              // Otherwise this is a fresh session. If we had peers from an
+              // earlier one they have already dropped us, so start over.
+              participantsRef.current.forEach((p) => {
+                p.peerConnection?.close();
+                stopRecovery(p.id);
+              });
+              participantsRef.current = new Map();
+              setParticipants(new Map());
+              closeSfuConnection();
+              topologyRef.current = message.topology ?? "mesh";
+              // Hosts are sent the current lobby right after joining
+              setWaitingParticipants([]);
+              setChatMessages(message.chatHistory ?? []);
+              setPrivateChatEnabled(message.privateChatEnabled ?? true);
+              setRaisedHands(message.raisedHands ?? []);
+              setScreenShareHostsOnlyState(
+                message.screenShareHostsOnly ?? false
+              );
+              setSpotlightId(message.spotlightId ?? null);
+              remoteScreenStreamIdsRef.current.clear();
+            }
+
+            // Existing participants in the room. A resumed session may have
+            // none of their connections either, e.g. after a page reload.
             console.log("Existing participants:", message.participants);
             console.log(
               "[useWebRTC] sendMessageRef available:",
@@ -261,47 +853,26 @@ export function useWebRTC({
             );
             message.participants.forEach((peerId: string) => {
               if (!participantsRef.current.has(peerId)) {
-                // Create peer connection and send offer
+                // Create peer connection; negotiationneeded sends the offer
                 console.log(
                   `[useWebRTC] Creating PC for existing participant: ${peerId}`
                 );
-                const pc = createPeerConnection(peerId);
+                const pc = createPeerConnection(peerId, true);
+                // The peer still holds a connection to our previous page
+                if (message.resumed) {
+                  negotiationStatesRef.current.get(pc)!.reset = true;
+                }
+                const profile = message.profiles?.find((p) => p.id === peerId);
 
                 setParticipants((prev) => {
                   const newMap = new Map(prev);
-                  newMap.set(peerId, { id: peerId, peerConnection: pc });
+                  newMap.set(peerId, {
+                    id: peerId,
+                    peerConnection: pc,
+                    profile,
+                  });
                   return newMap;
                 });
-
-                // Create and send offer
-                pc.createOffer()
-                  .then((offer) => {
-                    console.log(
-                      `[useWebRTC] Created offer for ${peerId}, setting local description`
-                    );
-                    return pc.setLocalDescription(offer);
-                  })
-                  .then(() => {
-                    console.log(
-                      `[useWebRTC] Local description set for ${peerId}, sending offer`
-                    );
-                    console.log(
-                      `[useWebRTC] sendMessageRef available: ${!!sendMessageRef.current}`
-                    );
-                    if (sendMessageRef.current) {
-                      sendMessageRef.current({
-                        type: "offer",
-                        from: participantId,
-                        to: peerId,
-                        sdp: pc.localDescription!,
-                      });
-                    } else {
-                      console.error(
-                        "[useWebRTC] ❌ Cannot send offer - sendMessageRef is null!"
-                      );
-                    }
-                  })
-                  .catch((err) => console.error("Error creating offer:", err));
               }
             });
             break;
@@ -313,18 +884,19 @@ export function useWebRTC({
               "[useWebRTC] sendMessageRef available:",
               !!sendMessageRef.current
             );
-            const pc = createPeerConnection(message.from);
+            const pc = createPeerConnection(message.from, false);
             setParticipants((prev) => {
               const newMap = new Map(prev);
               newMap.set(message.from, {
                 id: message.from, //peerId
                 peerConnection: pc,
+                profile: message.profile,
               });
               return newMap;
             });
             // Notify parent component
             if (onParticipantJoined) {
-              onParticipantJoined(message.from);
+              onParticipantJoined(message.from, message.profile);
             }
             break;
 
@@ -338,14 +910,26 @@ export function useWebRTC({
               message.from
             )?.peerConnection;
 
-            if (!peerConnection) {
+            if (peerConnection && message.reset) {
+              // The peer gave up on the old connection and built a new one
+              console.log(
+                `[Offer] ${message.from} rebuilt its connection, replacing ours`
+              );
+              stopRecovery(message.from);
+              peerConnection = createPeerConnection(message.from, false);
+              replacePeerConnection(message.from, peerConnection);
+            } else if (!peerConnection) {
               console.log(
                 `[Offer] Creating new peer connection for ${message.from}`
               );
-              peerConnection = createPeerConnection(message.from);
+              peerConnection = createPeerConnection(message.from, false);
               setParticipants((prev) => {
                 const newMap = new Map(prev);
-                newMap.set(message.from, { id: message.from, peerConnection });
+                newMap.set(message.from, {
+                  ...prev.get(message.from),
+                  id: message.from,
+                  peerConnection,
+                });
                 return newMap;
               });
             } else {
@@ -354,9 +938,44 @@ export function useWebRTC({
               );
             }
 
+            // Both sides offered at once: the impolite side keeps its own
+            // offer, the polite side rolls its offer back and answers
+            const offerNegotiation =
+              negotiationStatesRef.current.get(peerConnection)!;
+            const readyForOffer =
+              !offerNegotiation.makingOffer &&
+              (peerConnection.signalingState === "stable" ||
+                offerNegotiation.isSettingRemoteAnswerPending);
+            offerNegotiation.ignoreOffer =
+              !offerNegotiation.polite && !readyForOffer;
+            if (offerNegotiation.ignoreOffer) {
+              console.log(
+                `[Offer] Ignoring offer from ${message.from} that collided with ours`
+              );
+              break;
+            }
+            offerNegotiation.awaitingFirstOffer = false;
+
+            // Tracks of the named stream arrive as the screen share; an
+            // offer without one means the peer stopped sharing. SFU rooms
+            // get screen shares from the server instead.
+            if (topologyRef.current === "mesh") {
+              if (message.screenStreamId) {
+                remoteScreenStreamIdsRef.current.set(
+                  message.from,
+                  message.screenStreamId
+                );
+              } else if (
+                remoteScreenStreamIdsRef.current.delete(message.from)
+              ) {
+                updateParticipant(message.from, { screenStream: undefined });
+              }
+            }
+
             console.log(
               `[Offer] Setting remote description for ${message.from}`
             );
+            // Rolls back our own pending offer if there is one
             await peerConnection.setRemoteDescription(
               new RTCSessionDescription(message.sdp)
             );
@@ -367,8 +986,7 @@ export function useWebRTC({
             // Process any queued ICE candidates
             await processQueuedCandidates(message.from, peerConnection);
 
-            const answer = await peerConnection.createAnswer();
-            await peerConnection.setLocalDescription(answer);
+            await peerConnection.setLocalDescription();
 
             console.log(
               `[useWebRTC] Sending answer to ${
@@ -378,7 +996,6 @@ export function useWebRTC({
             if (sendMessageRef.current) {
               sendMessageRef.current({
                 type: "answer",
-                from: participantId,
                 to: message.from,
                 sdp: peerConnection.localDescription!,
               });
@@ -402,9 +1019,16 @@ export function useWebRTC({
               console.log(
                 `[Answer] Setting remote description for ${message.from}, current signalingState: ${answerPc.signalingState}`
               );
-              await answerPc.setRemoteDescription(
-                new RTCSessionDescription(message.sdp)
-              );
+              const answerNegotiation =
+                negotiationStatesRef.current.get(answerPc)!;
+              answerNegotiation.isSettingRemoteAnswerPending = true;
+              try {
+                await answerPc.setRemoteDescription(
+                  new RTCSessionDescription(message.sdp)
+                );
+              } finally {
+                answerNegotiation.isSettingRemoteAnswerPending = false;
+              }
               console.log(
                 `[Answer] ✅ Remote description set for ${message.from}, new signalingState: ${answerPc.signalingState}`
               );
@@ -447,7 +1071,12 @@ export function useWebRTC({
                   );
                   console.log("ICE candidate added successfully");
                 } catch (err) {
-                  console.error("Error adding ICE candidate:", err);
+                  // Candidates for an offer we ignored are expected to fail
+                  if (
+                    !negotiationStatesRef.current.get(candidatePc)?.ignoreOffer
+                  ) {
+                    console.error("Error adding ICE candidate:", err);
+                  }
                 }
               }
             }
@@ -459,14 +1088,18 @@ export function useWebRTC({
             if (leftParticipant?.peerConnection) {
               leftParticipant.peerConnection.close();
             }
+            stopRecovery(message.from);
             setParticipants((prev) => {
               const newMap = new Map(prev);
               newMap.delete(message.from);
               return newMap;
             });
+            setRaisedHands((prev) => prev.filter((h) => h.id !== message.from));
+            setSpotlightId((prev) => (prev === message.from ? null : prev));
+            remoteScreenStreamIdsRef.current.delete(message.from);
             // Notify parent component
             if (onParticipantLeft) {
-              onParticipantLeft(message.from);
+              onParticipantLeft(message.from, leftParticipant?.profile);
             }
             break;
 
@@ -486,6 +1119,149 @@ export function useWebRTC({
             }
             break;
 
+          case "room-full":
+            console.log(
+              `Room is full (${message.maxParticipants} participants)`
+            );
+            // The server closes the socket right after this message
+            if (onRoomFull) {
+              onRoomFull(message.maxParticipants);
+            }
+            break;
+
+          case "lobby-waiting":
+            console.log("Waiting in the lobby for the host");
+            setLobbyStatus("waiting");
+            break;
+
+          case "lobby-admitted":
+            // The participants message follows and starts the call
+            console.log("Admitted from the lobby");
+            break;
+
+          case "lobby-denied":
+            console.log("The host denied entry");
+            setLobbyStatus("denied");
+            break;
+
+          case "knock":
+            // Waiting participants knock again whenever a host joins
+            setWaitingParticipants((prev) =>
+              prev.some((p) => p.id === message.from)
+                ? prev
+                : [...prev, { id: message.from, name: message.name }]
+            );
+            break;
+
+          case "lobby-left":
+            setWaitingParticipants((prev) =>
+              prev.filter((p) => p.id !== message.from)
+            );
+            break;
+
+          case "chat":
+            setChatMessages((prev) =>
+              prev.some((m) => m.id === message.id)
+                ? prev
+                : [
+                    ...prev,
+                    {
+                      id: message.id,
+                      from: message.from,
+                      name: message.name,
+                      text: message.text,
+                      sentAt: message.sentAt,
+                      to: message.to,
+                    },
+                  ]
+            );
+            break;
+
+          case "private-chat":
+            setPrivateChatEnabled(message.enabled);
+            break;
+
+          case "hand":
+            setRaisedHands((prev) => {
+              const others = prev.filter((h) => h.id !== message.from);
+              if (!message.raised) return others;
+              return [
+                ...others,
+                {
+                  id: message.from,
+                  raisedAt: message.raisedAt ?? new Date().toISOString(),
+                },
+              ].sort((a, b) => a.raisedAt.localeCompare(b.raisedAt));
+            });
+            if (
+              message.from === participantId &&
+              message.loweredBy &&
+              onHandLowered
+            ) {
+              onHandLowered();
+            }
+            break;
+
+          case "reaction":
+            showReaction(message.from, message.emoji);
+            break;
+
+          case "screen-share-policy":
+            setScreenShareHostsOnlyState(message.hostsOnly);
+            break;
+
+          case "spotlight":
+            setSpotlightId(message.participantId);
+            break;
+
+          case "topology":
+            switchTopology(message.topology);
+            break;
+
+          case "sfu-offer":
+            console.log(
+              `[SFU] Received offer with ${message.tracks.length} forwarded tracks`
+            );
+            const sfuPc = sfuConnectionRef.current ?? createSfuConnection();
+            await sfuPc.setRemoteDescription(
+              new RTCSessionDescription(message.sdp)
+            );
+            for (const candidate of sfuPendingCandidatesRef.current.splice(0)) {
+              try {
+                await sfuPc.addIceCandidate(new RTCIceCandidate(candidate));
+              } catch (err) {
+                console.error("[SFU] Error adding queued candidate:", err);
+              }
+            }
+
+            sfuPublishRef.current = message.publish;
+            await publishToSfu(sfuPc, message.publish, {
+              camera: localStream,
+              screen: screenStreamRef.current,
+            });
+            await sfuPc.setLocalDescription();
+            sendMessageRef.current?.({
+              type: "sfu-answer",
+              sdp: sfuPc.localDescription!,
+            });
+            applySfuTracks(sfuPc, message.tracks);
+            break;
+
+          case "sfu-ice-candidate":
+            const sfuCandidatePc = sfuConnectionRef.current;
+            if (!sfuCandidatePc?.remoteDescription) {
+              sfuPendingCandidatesRef.current.push(message.candidate);
+              break;
+            }
+            try {
+              await sfuCandidatePc.addIceCandidate(
+                new RTCIceCandidate(message.candidate)
+              );
+            } catch (err) {
+              console.error("[SFU] Error adding ICE candidate:", err);
+            }
+            break;
+
           case "audio-toggle":
             console.log(
               `Participant ${message.from} audio is now ${
@@ -505,6 +1281,30 @@ export function useWebRTC({
             break;
 
           case "error":
+            // Our view of the screen share policy was stale. Taking the
+            // policy makes the room page stop the share; the offer carrying
+            // it was dropped, so it is rolled back for the next one.
+            if (message.code === "screen-share-forbidden") {
+              console.warn("Screen share rejected:", message.message);
+              setScreenShareHostsOnlyState(true);
+              const rejected =
+                message.to &&
+                participantsRef.current.get(message.to)?.peerConnection;
+              if (rejected && rejected.signalingState === "have-local-offer") {
+                await rejected.setLocalDescription({ type: "rollback" });
+              }
+              break;
+            }
+            // Rejected actions, throttled messages and private messages to
+            // someone who left are not fatal to the call
+            if (
+              message.code === "forbidden" ||
+              message.code === "rate-limited" ||
+              message.code === "not-found"
+            ) {
+              console.warn("Signaling action rejected:", message.message);
+              break;
+            }
             console.error("Signaling error:", message.message);
             setError(message.message);
             break;
@@ -526,14 +1326,80 @@ export function useWebRTC({
       onParticipantJoined,
       onKicked,
       onMuted,
+      onRoomFull,
+      onHandLowered,
+      showReaction,
+      sendOffer,
+      updateParticipant,
+      replacePeerConnection,
+      stopRecovery,
+      localStream,
+      createSfuConnection,
+      closeSfuConnection,
+      applySfuTracks,
+      switchTopology,
     ]
   );
 
-  const { sendMessage, isConnected, disconnect } = useWebSocket({
+  // Load ICE servers before joining and again before the TURN credentials
+  // expire. Existing connections pick up the new credentials for their next
+  // ICE restart.
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const load = async () => {
+      const result = await fetchIceConfig(roomId, participantId, passcode);
+      if (cancelled) return;
+
+      if (result.error !== undefined) {
+        if (result.retry) {
+          timer = setTimeout(load, ICE_CONFIG_RETRY_MS);
+        } else {
+          setError(result.error);
+        }
+        return;
+      }
+
+      const config = result.config;
+      console.log(
+        `[ICE] Loaded ${config.iceServers.length} ICE servers (policy: ${config.iceTransportPolicy})`
+      );
+      iceConfigRef.current = config;
+      setIceConfig(config);
+      participantsRef.current.forEach(({ id, peerConnection }) => {
+        try {
+          peerConnection?.setConfiguration(toRTCConfiguration(config));
+        } catch (err) {
+          console.warn(`[ICE] Could not update ICE servers for ${id}:`, err);
+        }
+      });
+      try {
+        sfuConnectionRef.current?.setConfiguration(toRTCConfiguration(config));
+      } catch (err) {
+        console.warn("[ICE] Could not update ICE servers for the SFU:", err);
+      }
+
+      if (config.expiresAt) {
+        timer = setTimeout(load, refreshDelay(config.expiresAt));
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [enabled, roomId, participantId, passcode]);
+
+  const { sendMessage, isConnected, authError, disconnect } = useWebSocket({
     roomId,
     participantId,
     onMessage: handleSignalingMessage,
-    enabled,
+    enabled: enabled && iceConfig !== null,
+    passcode,
   });
 
   const kickParticipant = useCallback(
@@ -541,7 +1407,6 @@ export function useWebRTC({
       if (sendMessage) {
         sendMessage({
           type: "kick",
-          from: participantId,
           to: targetParticipantId,
         });
         // Optimistically remove the participant
@@ -549,6 +1414,7 @@ export function useWebRTC({
         if (participant?.peerConnection) {
           participant.peerConnection.close();
         }
+        stopRecovery(targetParticipantId);
         setParticipants((prev) => {
           const newMap = new Map(prev);
           newMap.delete(targetParticipantId);
@@ -556,7 +1422,7 @@ export function useWebRTC({
         });
       }
     },
-    [sendMessage, participantId]
+    [sendMessage, participantId, stopRecovery]
   );
 
   const muteParticipant = useCallback(
@@ -564,7 +1430,6 @@ export function useWebRTC({
       if (sendMessage) {
         sendMessage({
           type: "mute",
-          from: participantId,
           to: targetParticipantId,
           muted,
         });
@@ -583,10 +1448,119 @@ export function useWebRTC({
     [sendMessage, participantId]
   );
 
+  const admitParticipant = useCallback(
+    (targetParticipantId: string) => {
+      sendMessage({ type: "admit", to: targetParticipantId });
+    },
+    [sendMessage]
+  );
+
+  const denyParticipant = useCallback(
+    (targetParticipantId: string) => {
+      sendMessage({ type: "deny", to: targetParticipantId });
+    },
+    [sendMessage]
+  );
+
+  const admitAllParticipants = useCallback(() => {
+    sendMessage({ type: "admit-all" });
+  }, [sendMessage]);
+
+  // The server echoes the message back once it is stored. With `to` only
+  // that participant receives it.
+  const sendChatMessage = useCallback(
+    (text: string, to?: string) => {
+      sendMessage({ type: "chat", text, to });
+    },
+    [sendMessage]
+  );
+
+  const setHandRaised = useCallback(
+    (raised: boolean) => {
+      sendMessage({ type: "hand", raised });
+    },
+    [sendMessage]
+  );
+
+  const lowerHand = useCallback(
+    (targetParticipantId: string) => {
+      sendMessage({ type: "lower-hand", to: targetParticipantId });
+    },
+    [sendMessage]
+  );
+
+  const sendReaction = useCallback(
+    (emoji: Reaction) => {
+      sendMessage({ type: "reaction", emoji });
+      showReaction(participantId, emoji);
+    },
+    [sendMessage, showReaction, participantId]
+  );
+
+  const setPrivateChat = useCallback(
+    (enabled: boolean) => {
+      sendMessage({ type: "private-chat", enabled });
+    },
+    [sendMessage]
+  );
+
+  const setScreenShareHostsOnly = useCallback(
+    (hostsOnly: boolean) => {
+      sendMessage({ type: "screen-share-policy", hostsOnly });
+    },
+    [sendMessage]
+  );
+
+  // Hosts only; null takes the spotlight away
+  const setSpotlight = useCallback(
+    (spotlightParticipantId: string | null) => {
+      sendMessage({ type: "spotlight", participantId: spotlightParticipantId });
+    },
+    [sendMessage]
+  );
+
+  // Latest audio level (0-1) received from each participant, read from the
+  // connection its audio arrives on
+  const getAudioLevels = useCallback(async () => {
+    const levels = new Map<string, number>();
+    await Promise.all(
+      Array.from(
+        participantsRef.current.values(),
+        async ({ id, stream, peerConnection }) => {
+          const pc =
+            topologyRef.current === "sfu"
+              ? sfuConnectionRef.current
+              : peerConnection;
+          const track = stream?.getAudioTracks()[0];
+          if (!pc || !track || pc.connectionState !== "connected") return;
+
+          const stats = await pc.getStats(track);
+          stats.forEach((report) => {
+            if (
+              report.type === "inbound-rtp" &&
+              typeof report.audioLevel === "number"
+            ) {
+              levels.set(id, report.audioLevel);
+            }
+          });
+        }
+      )
+    );
+    return levels;
+  }, []);
+
   // Mute/unmute audio on all RTCRtpSenders using replaceTrack for reliable muting
   const setLocalAudioEnabled = useCallback(
     async (enabled: boolean) => {
-      const participantCount = participantsRef.current.size;
+      // The one connection to the SFU carries our audio in SFU rooms
+      const connections: [string, RTCPeerConnection | undefined][] =
+        topologyRef.current === "sfu"
+          ? [["SFU", sfuConnectionRef.current ?? undefined]]
+          : Array.from(participantsRef.current, ([peerId, participant]) => [
+              peerId,
+              participant.peerConnection,
+            ]);
+      const participantCount = connections.length;
       console.log(
         `[useWebRTC] Setting local audio enabled=${enabled} on ${participantCount} peer connections`
       );
@@ -609,8 +1583,7 @@ export function useWebRTC({
 
       const promises: Promise<void>[] = [];
 
-      participantsRef.current.forEach((participant, peerId) => {
-        const pc = participant.peerConnection;
+      connections.forEach(([peerId, pc]) => {
         if (!pc) {
           console.log(`[useWebRTC] No peer connection for ${peerId}`);
           return;
@@ -678,7 +1651,6 @@ export function useWebRTC({
       if (sendMessage) {
         sendMessage({
           type: "audio-toggle",
-          from: participantId,
           audioEnabled,
         });
       }
@@ -697,19 +1669,27 @@ export function useWebRTC({
 
   // Cleanup on unmount
   useEffect(() => {
+    const recoveries = recoveriesRef.current;
     return () => {
+      recoveries.forEach((recovery) => {
+        if (recovery.timer) clearTimeout(recovery.timer);
+      });
+      const sfuRecovery = sfuRecoveryRef.current;
+      if (sfuRecovery?.timer) clearTimeout(sfuRecovery.timer);
       participants.forEach((participant) => {
         if (participant.peerConnection) {
           participant.peerConnection.close();
         }
       });
+      sfuConnectionRef.current?.close();
     };
   }, []);
 
   // Track the previous localStream to detect actual changes
   const prevLocalStreamRef = useRef<MediaStream | null>(null);
 
-  // Update peer connections when local stream ACTUALLY changes (not on participant updates)
+  // Update peer connections when local stream ACTUALLY changes (not on participant updates).
+  // negotiationneeded then sends each peer the updated offer.
   useEffect(() => {
     if (!localStream) return;
 
@@ -719,6 +1699,19 @@ export function useWebRTC({
     }
     prevLocalStreamRef.current = localStream;
 
+    if (topologyRef.current === "sfu") {
+      const sfuPc = sfuConnectionRef.current;
+      if (sfuPc) {
+        console.log("[useWebRTC] localStream changed, updating the SFU");
+        publishToSfu(sfuPc, sfuPublishRef.current, {
+          camera: localStream,
+        }).catch((err) => {
+          console.error("[SFU] Failed to publish the new stream:", err);
+        });
+      }
+      return;
+    }
+
     console.log("[useWebRTC] localStream changed, updating peer connections");
 
     // Use the ref to get current participants without depending on the state
@@ -726,8 +1719,14 @@ export function useWebRTC({
       const pc = participant.peerConnection;
       if (!pc) return;
 
-      // Check if tracks are already added
-      const senders = pc.getSenders();
+      // Check if tracks are already added; screen share senders are
+      // managed separately
+      const senders = pc
+        .getSenders()
+        .filter(
+          (s) =>
+            !s.track || !screenStreamRef.current?.getTracks().includes(s.track)
+        );
       const existingTrackIds = new Set(senders.map((s) => s.track?.id));
       const newTrackIds = new Set(localStream.getTracks().map((t) => t.id));
 
@@ -761,13 +1760,77 @@ export function useWebRTC({
     });
   }, [localStream]); // Only depend on localStream, not participants
 
+  // Publish or withdraw the screen share on every peer connection. Each
+  // change fires negotiationneeded, which sends the new offer.
+  useEffect(() => {
+    const previous = screenStreamRef.current;
+    if (screenStream === previous) return;
+    screenStreamRef.current = screenStream;
+
+    // The SFU forwards the screen share once told about it
+    if (topologyRef.current === "sfu") {
+      sendMessageRef.current?.({ type: "sfu-screen", sharing: !!screenStream });
+      const sfuPc = sfuConnectionRef.current;
+      if (sfuPc) {
+        publishToSfu(sfuPc, sfuPublishRef.current, {
+          screen: screenStream,
+        }).catch((err) => {
+          console.error("[SFU] Failed to publish the screen share:", err);
+        });
+      }
+      return;
+    }
+
+    participantsRef.current.forEach((participant, peerId) => {
+      const pc = participant.peerConnection;
+      if (!pc || pc.signalingState === "closed") return;
+
+      if (previous) {
+        const previousTracks = previous.getTracks();
+        pc.getSenders()
+          .filter((s) => s.track && previousTracks.includes(s.track))
+          .forEach((sender) => pc.removeTrack(sender));
+      }
+      if (screenStream) {
+        console.log(`[useWebRTC] Sharing screen with ${peerId}`);
+        screenStream
+          .getTracks()
+          .forEach((track) => pc.addTrack(track, screenStream));
+      }
+    });
+  }, [screenStream]);
+
   return {
-    participants: Array.from(participants.values()),
+    // Media in SFU rooms depends on the connection to the server
+    participants: Array.from(participants.values(), (participant) =>
+      sfuConnectionState
+        ? { ...participant, connectionState: sfuConnectionState }
+        : participant
+    ),
     isConnected,
-    error,
+    error: error ?? authError,
     disconnect,
     kickParticipant,
     muteParticipant,
     broadcastAudioToggle,
+    lobbyStatus,
+    waitingParticipants,
+    admitParticipant,
+    denyParticipant,
+    admitAllParticipants,
+    chatMessages,
+    sendChatMessage,
+    privateChatEnabled,
+    setPrivateChat,
+    screenShareHostsOnly,
+    setScreenShareHostsOnly,
+    spotlightId,
+    setSpotlight,
+    raisedHands,
+    reactions,
+    setHandRaised,
+    lowerHand,
+    sendReaction,
+    getAudioLevels,
   };
 }
@@ -1,35 +1,23 @@
 import { useEffect, useRef, useCallback, useState } from "react";
+import {
+  CAPABILITIES,
+  CloseCode,
+  PROTOCOL_VERSION,
+  parseServerMessage,
+  type ClientMessage,
+  type ServerMessage,
+} from "@shared/protocol";
 
-interface SignalingMessage {
-  type:
-    | "offer"
-    | "answer"
-    | "ice-candidate"
-    | "join"
-    | "leave"
-    | "participants"
-    | "participant-joined"
-    | "participant-left"
-    | "kick"
-    | "kicked"
-    | "mute"
-    | "audio-toggle"
-    | "error";
-  from?: string;
-  to?: string;
-  participants?: string[];
-  sdp?: RTCSessionDescriptionInit;
-  candidate?: RTCIceCandidateInit;
-  message?: string;
-  muted?: boolean;
-  audioEnabled?: boolean;
-}
+// Extra slack on top of two missed heartbeats before giving up on the server
+const LIVENESS_GRACE_MS = 5000;
 
 interface UseWebSocketProps {
   roomId: string;
   participantId: string;
-  onMessage: (message: SignalingMessage) => void;
+  onMessage: (message: ServerMessage) => void;
   enabled?: boolean;
+  // Required by the token route for passcode-protected rooms
+  passcode?: string;
 }
 
 export function useWebSocket({
@@ -37,57 +25,142 @@ export function useWebSocket({
   participantId,
   onMessage,
   enabled = true,
+  passcode,
 }: UseWebSocketProps) {
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
   const shouldReconnectRef = useRef(true);
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Set when the server refuses our identity; reconnecting will not help
+  const [authError, setAuthError] = useState<string | null>(null);
+  const isConnectingRef = useRef(false);
+  const livenessTimeoutRef = useRef<NodeJS.Timeout | undefined>(undefined);
+  // Learned from the server's first heartbeat
+  const heartbeatIntervalRef = useRef<number | null>(null);
 
-  const connect = useCallback(() => {
+  const scheduleReconnect = useCallback(
+    (reconnect: () => void) => {
+      if (enabled && shouldReconnectRef.current) {
+        reconnectTimeoutRef.current = setTimeout(reconnect, 3000);
+      }
+    },
+    [enabled]
+  );
+
+  const connect = useCallback(async () => {
     if (!enabled) return;
 
     // Prevent multiple connections
     if (
-      wsRef.current &&
-      (wsRef.current.readyState === WebSocket.OPEN ||
-        wsRef.current.readyState === WebSocket.CONNECTING)
+      isConnectingRef.current ||
+      (wsRef.current &&
+        (wsRef.current.readyState === WebSocket.OPEN ||
+          wsRef.current.readyState === WebSocket.CONNECTING))
     ) {
       return;
     }
 
+    // Every connection needs a fresh short-lived join token
+    isConnectingRef.current = true;
+    let token: string;
+    try {
+      const response = await fetch(`/api/rooms/${roomId}/token`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ participantId, passcode }),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        // Client errors mean we are not allowed in; server errors may pass
+        if (response.status < 500) {
+          setAuthError(data.error || "Not allowed to join this room");
+        } else {
+          setError(data.error || "Failed to get join token");
+          scheduleReconnect(connect);
+        }
+        return;
+      }
+      token = data.token;
+    } catch (err) {
+      console.error("Failed to fetch join token:", err);
+      setError("Failed to get join token");
+      scheduleReconnect(connect);
+      return;
+    } finally {
+      isConnectingRef.current = false;
+    }
+
+    // The hook may have been disabled while the token was being fetched
+    if (!shouldReconnectRef.current) return;
+
     const wsUrl = process.env.NEXT_PUBLIC_WS_URL || "ws://localhost:3001";
-    const ws = new WebSocket(`${wsUrl}/ws/${roomId}`);
+    const ws = new WebSocket(
+      `${wsUrl}/ws/${roomId}?token=${encodeURIComponent(token)}`
+    );
 
     ws.onopen = () => {
       console.log("WebSocket connected");
       setIsConnected(true);
       setError(null);
 
-      // Send join message
-      const joinMessage = {
+      // Send join message, advertising everything this client understands
+      const joinMessage: ClientMessage = {
         type: "join",
-        from: participantId,
         roomId,
+        version: PROTOCOL_VERSION,
+        capabilities: [...CAPABILITIES],
       };
       console.log("[WS Send] Join message:", joinMessage);
       ws.send(JSON.stringify(joinMessage));
     };
 
+    // Reconnect if the server goes silent for two heartbeat rounds
+    const resetLivenessTimer = () => {
+      clearTimeout(livenessTimeoutRef.current);
+      if (!heartbeatIntervalRef.current) return;
+
+      livenessTimeoutRef.current = setTimeout(() => {
+        console.warn("Server went silent, reconnecting");
+        // A half-open socket may take minutes to finish closing, so detach
+        // it and start over instead of waiting for onclose
+        ws.onclose = null;
+        ws.onmessage = null;
+        ws.onerror = null;
+        ws.close();
+        wsRef.current = null;
+        setIsConnected(false);
+        scheduleReconnect(connect);
+      }, heartbeatIntervalRef.current * 2 + LIVENESS_GRACE_MS);
+    };
+
     ws.onmessage = (event) => {
-      try {
-        const message: SignalingMessage = JSON.parse(event.data);
-        console.log(
-          "[WS Receive]",
-          message.type,
-          "from",
-          message.from || "server",
-          message
-        );
-        onMessage(message);
-      } catch (err) {
-        console.error("Failed to parse WebSocket message:", err);
+      resetLivenessTimer();
+
+      const parsed = parseServerMessage(event.data);
+      if (!parsed.ok) {
+        // Newer servers may send message types this client does not know
+        console.warn("Ignoring unrecognised WebSocket message:", parsed.error);
+        return;
       }
+      const message = parsed.message;
+      if (message.type === "heartbeat") {
+        if (heartbeatIntervalRef.current !== message.intervalMs) {
+          heartbeatIntervalRef.current = message.intervalMs;
+          resetLivenessTimer();
+        }
+        return;
+      }
+
+      console.log(
+        "[WS Receive]",
+        message.type,
+        "from",
+        "from" in message ? message.from : "server",
+        message
+      );
+      onMessage(message);
     };
 
     ws.onerror = (event) => {
@@ -95,29 +168,53 @@ export function useWebSocket({
       setError("WebSocket connection error");
     };
 
-    ws.onclose = () => {
-      console.log("WebSocket disconnected");
+    ws.onclose = (event) => {
+      console.log("WebSocket disconnected", event.code, event.reason);
+      clearTimeout(livenessTimeoutRef.current);
       setIsConnected(false);
       wsRef.current = null;
 
-      // Attempt to reconnect after 3 seconds only if we should reconnect
-      if (enabled && shouldReconnectRef.current) {
-        reconnectTimeoutRef.current = setTimeout(() => {
-          connect();
-        }, 3000);
+      if (event.code === CloseCode.JOIN_TOKEN_INVALID) {
+        setAuthError("Your join token was rejected by the server");
+        return;
+      }
+      if (event.code === CloseCode.REPLACED) {
+        setAuthError("You joined this room from another tab or window");
+        return;
+      }
+      if (
+        event.code === CloseCode.ROOM_FULL ||
+        event.code === CloseCode.LOBBY_DENIED ||
+        event.code === CloseCode.KICKED
+      ) {
+        // Reported through the preceding message; retrying would fail again
+        return;
+      }
+      if (event.code === CloseCode.JOIN_TOKEN_EXPIRED) {
+        // The next attempt fetches a new token
+        setError("Join token expired, reconnecting");
       }
+      if (
+        event.code === CloseCode.POLICY_VIOLATION ||
+        event.code === CloseCode.MESSAGE_TOO_BIG
+      ) {
+        setError("Disconnected for sending too many messages, reconnecting");
+      }
+
+      // Attempt to reconnect after 3 seconds only if we should reconnect
+      scheduleReconnect(connect);
     };
 
     wsRef.current = ws;
-  }, [roomId, participantId, onMessage, enabled]);
+  }, [roomId, participantId, passcode, onMessage, enabled, scheduleReconnect]);
 
-  const sendMessage = useCallback((message: SignalingMessage) => {
+  const sendMessage = useCallback((message: ClientMessage) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       console.log(
         "[WS Send]",
         message.type,
         "to",
-        message.to || "all",
+        "to" in message ? message.to : "all",
         message
       );
       wsRef.current.send(JSON.stringify(message));
@@ -135,22 +232,20 @@ export function useWebSocket({
     if (reconnectTimeoutRef.current) {
       clearTimeout(reconnectTimeoutRef.current);
     }
+    clearTimeout(livenessTimeoutRef.current);
 
     if (wsRef.current) {
       // Send leave message before closing
       if (wsRef.current.readyState === WebSocket.OPEN) {
         wsRef.current.send(
-          JSON.stringify({
-            type: "leave",
-            from: participantId,
-          })
+          JSON.stringify({ type: "leave" } satisfies ClientMessage)
         );
       }
       wsRef.current.close();
       wsRef.current = null;
     }
     setIsConnected(false);
-  }, [participantId]);
+  }, []);
 
   useEffect(() => {
     if (enabled) {
@@ -163,13 +258,11 @@ export function useWebSocket({
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
+      clearTimeout(livenessTimeoutRef.current);
       if (wsRef.current) {
         if (wsRef.current.readyState === WebSocket.OPEN) {
           wsRef.current.send(
-            JSON.stringify({
-              type: "leave",
-              from: participantId,
-            })
+            JSON.stringify({ type: "leave" } satisfies ClientMessage)
           );
         }
         wsRef.current.close();
@@ -179,5 +272,5 @@ export function useWebSocket({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [enabled, roomId, participantId]);
 
-  return { sendMessage, isConnected, error, disconnect };
+  return { sendMessage, isConnected, error, authError, disconnect };
 }
@@ -0,0 +1,105 @@
+// lib/attendance.ts
+
+export interface ParticipationRecord {
+  participantId: string;
+  userId: string | null;
+  guestId: string | null;
+  name: string;
+  joinedAt: Date;
+  leftAt: Date | null;
+  leaveReason: string | null;
+}
+
+export interface AttendanceEntry {
+  userId: string | null;
+  guestId: string | null;
+  name: string;
+  isGuest: boolean;
+  sessions: number;
+  firstJoinedAt: string;
+  lastLeftAt: string | null;
+  lastLeaveReason: string | null;
+  totalSeconds: number;
+}
+
+// Groups participation records per person (account or guest identity) and
+// adds up their time in the room. Stays that are still open count up to
+// `now` and leave `lastLeftAt` null.
+export function summarizeAttendance(
+  records: ParticipationRecord[],
+  now = new Date()
+): AttendanceEntry[] {
+  const entries = new Map<string, AttendanceEntry>();
+
+  const sorted = [...records].sort(
+    (a, b) => a.joinedAt.getTime() - b.joinedAt.getTime()
+  );
+
+  for (const record of sorted) {
+    const key = record.userId ?? record.guestId ?? record.participantId;
+    const end = record.leftAt ?? now;
+    const seconds = Math.max(
+      0,
+      Math.round((end.getTime() - record.joinedAt.getTime()) / 1000)
+    );
+
+    const entry = entries.get(key) ?? {
+      userId: record.userId,
+      guestId: record.guestId,
+      name: record.name,
+      isGuest: record.userId === null,
+      sessions: 0,
+      firstJoinedAt: record.joinedAt.toISOString(),
+      lastLeftAt: null,
+      lastLeaveReason: null,
+      totalSeconds: 0,
+    };
+
+    // Latest record wins for the name, in case a guest renamed themselves
+    entry.name = record.name;
+    entry.sessions += 1;
+    entry.totalSeconds += seconds;
+    entry.lastLeftAt = record.leftAt?.toISOString() ?? null;
+    entry.lastLeaveReason = record.leaveReason;
+    entries.set(key, entry);
+  }
+
+  return [...entries.values()];
+}
+
+// Spreadsheets run cells starting with these as formulas, so names chosen
+// by participants are prefixed with a quote to keep them plain text
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvField(value: string | number | boolean | null): string {
+  let text = value === null ? "" : String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function attendanceToCsv(entries: AttendanceEntry[]): string {
+  const header = [
+    "name",
+    "guest",
+    "sessions",
+    "first_joined_at",
+    "last_left_at",
+    "last_leave_reason",
+    "total_seconds",
+  ];
+  const rows = entries.map((entry) => [
+    entry.name,
+    entry.isGuest,
+    entry.sessions,
+    entry.firstJoinedAt,
+    entry.lastLeftAt,
+    entry.lastLeaveReason,
+    entry.totalSeconds,
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map(csvField).join(","))
+    .join("\r\n");
+}
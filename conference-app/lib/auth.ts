@@ -1,32 +1,104 @@
 // lib/auth.ts
 
 import type { NextAuthConfig } from "next-auth";
+import type { Provider } from "next-auth/providers";
 import { PrismaAdapter } from "@auth/prisma-adapter";
 import GoogleProvider from "next-auth/providers/google";
+import GitHubProvider from "next-auth/providers/github";
+import NodemailerProvider from "next-auth/providers/nodemailer";
+import CredentialsProvider from "next-auth/providers/credentials";
 import { prisma } from "./prisma";
+import { deliverMagicLinkLocally, getEmailTransport } from "./email";
+
+// Passwordless sign-in as any name, for working offline. Never available in
+// production builds.
+const devLoginEnabled =
+  process.env.NODE_ENV !== "production" &&
+  process.env.AUTH_DEV_LOGIN === "true";
+
+// Only providers with configuration are offered on the login page
+function configuredProviders(): Provider[] {
+  const providers: Provider[] = [];
+
+  if (process.env.GOOGLE_CLIENT_ID) {
+    providers.push(
+      GoogleProvider({
+        clientId: process.env.GOOGLE_CLIENT_ID,
+        clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
+        authorization: {
+          params: {
+            prompt: "consent",
+            access_type: "offline",
+            response_type: "code",
+          },
+        },
+      })
+    );
+  }
+
+  if (process.env.GITHUB_CLIENT_ID) {
+    providers.push(
+      GitHubProvider({
+        clientId: process.env.GITHUB_CLIENT_ID,
+        clientSecret: process.env.GITHUB_CLIENT_SECRET!,
+      })
+    );
+  }
+
+  const emailTransport = getEmailTransport();
+  if (emailTransport) {
+    providers.push(
+      NodemailerProvider({
+        server: process.env.EMAIL_SERVER,
+        from: process.env.EMAIL_FROM || "MeetFlow <no-reply@localhost>",
+        // Local transports skip SMTP and surface the link directly
+        ...(emailTransport !== "smtp" && {
+          sendVerificationRequest: ({ identifier, url }) =>
+            deliverMagicLinkLocally(emailTransport, identifier, url),
+        }),
+      })
+    );
+  }
+
+  if (devLoginEnabled) {
+    providers.push(
+      CredentialsProvider({
+        id: "dev-login",
+        name: "Development login",
+        credentials: {
+          name: { label: "Name", type: "text" },
+        },
+        async authorize(credentials) {
+          const name = String(credentials.name ?? "").trim();
+          if (!name) return null;
+
+          // A stable fake address so the same name maps to the same user
+          const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, "-");
+          const email = `${slug}@dev.localhost`;
+          return prisma.user.upsert({
+            where: { email },
+            update: {},
+            create: { email, name },
+          });
+        },
+      })
+    );
+  }
+
+  return providers;
+}
 
 export const authConfig: NextAuthConfig = {
   adapter: PrismaAdapter(prisma),
-  providers: [
-    GoogleProvider({
-      clientId: process.env.GOOGLE_CLIENT_ID!,
-      clientSecret: process.env.GOOGLE_CLIENT_SECRET!,
-      authorization: {
-        params: {
-          prompt: "consent",
-          access_type: "offline",
-          response_type: "code",
-        },
-      },
-    }),
-  ],
+  providers: configuredProviders(),
   secret: process.env.AUTH_SECRET,
   pages: {
     signIn: "/login",
     error: "/login",
   },
   session: {
-    strategy: "database",
+    // Credentials sign-ins cannot create database sessions
+    strategy: devLoginEnabled ? "jwt" : "database",
   },
   callbacks: {
     async signIn({ user, account, profile }) {
@@ -35,9 +107,10 @@ export const authConfig: NextAuthConfig = {
       }
       return true;
     },
-    async session({ session, user }) {
+    async session({ session, user, token }) {
       if (session.user) {
-        session.user.id = user.id;
+        // `user` with database sessions, `token` with JWT sessions
+        session.user.id = user?.id ?? token.sub!;
       }
       return session;
     },
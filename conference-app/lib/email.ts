@@ -0,0 +1,42 @@
+// lib/email.ts
+
+import { appendFile } from "fs/promises";
+
+// How magic-link emails are delivered. "smtp" sends through EMAIL_SERVER;
+// "console" and "file" are for local development without a mail server.
+export type EmailTransport = "smtp" | "console" | "file";
+
+export function getEmailTransport(): EmailTransport | null {
+  const transport = process.env.EMAIL_TRANSPORT;
+  if (transport === "console" || transport === "file") {
+    // Whoever can read the logs could sign in as anyone, so production
+    // falls back to SMTP or goes without email sign-in
+    if (process.env.NODE_ENV !== "production") return transport;
+    console.error(
+      `[Email] EMAIL_TRANSPORT=${transport} is for local development and is ignored in production`
+    );
+    return process.env.EMAIL_SERVER ? "smtp" : null;
+  }
+  if (transport === "smtp" || process.env.EMAIL_SERVER) return "smtp";
+  return null;
+}
+
+const DEFAULT_OUTBOX_FILE = "magic-links.log";
+
+// Stand-in for sending the sign-in email when running locally
+export async function deliverMagicLinkLocally(
+  transport: "console" | "file",
+  email: string,
+  url: string
+) {
+  const line = `[${new Date().toISOString()}] Sign-in link for ${email}: ${url}\n`;
+
+  if (transport === "console") {
+    console.log(`[Email] ${line.trim()}`);
+    return;
+  }
+
+  const file = process.env.EMAIL_OUTBOX_FILE || DEFAULT_OUTBOX_FILE;
+  await appendFile(file, line);
+  console.log(`[Email] Sign-in link for ${email} written to ${file}`);
+}
@@ -0,0 +1,134 @@
+// lib/file-transfer.ts
+//
+// Wire format for peer-to-peer file transfers. Every peer connection carries
+// one negotiated data channel for files. Control messages are JSON strings;
+// file data is sent as binary chunks prefixed with the transfer id, so
+// several transfers can share the ordered channel.
+
+import { z } from "zod";
+
+const FILE_CHANNEL_LABEL = "files";
+// Negotiated out of band: both ends create the channel with this id, so it
+// is part of the first offer and needs no `ondatachannel` handling
+const FILE_CHANNEL_ID = 0;
+
+// 16 KiB chunks are delivered intact by every browser
+export const CHUNK_SIZE = 16 * 1024;
+// Files are held in memory on the receiving side
+export const MAX_FILE_SIZE = 100 * 1024 * 1024;
+// Offers from one peer beyond these are refused until earlier ones finish,
+// so a peer cannot fill the receiver's memory with parallel transfers
+export const MAX_INCOMING_TRANSFERS_PER_PEER = 3;
+export const MAX_INCOMING_BYTES_PER_PEER = 2 * MAX_FILE_SIZE;
+
+// Sending pauses above MAX_BUFFERED_AMOUNT and resumes once the channel has
+// drained to its bufferedAmountLowThreshold
+const MAX_BUFFERED_AMOUNT = 1024 * 1024;
+const BUFFERED_AMOUNT_LOW_THRESHOLD = 256 * 1024;
+
+// Transfer ids are ASCII, so the prefix is exactly this many bytes
+export const TRANSFER_ID_LENGTH = 16;
+
+export const MAX_FILE_NAME_LENGTH = 255;
+const MAX_MIME_TYPE_LENGTH = 255;
+const MAX_CANCEL_REASON_LENGTH = 200;
+
+// nanoid ids
+const TransferIdSchema = z
+  .string()
+  .length(TRANSFER_ID_LENGTH)
+  .regex(/^[\w-]+$/);
+
+// Everything a peer sends is checked here; anything else is dropped
+const FileControlMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("file-offer"),
+    id: TransferIdSchema,
+    name: z.string().min(1).max(MAX_FILE_NAME_LENGTH),
+    size: z.number().int().positive().max(MAX_FILE_SIZE),
+    mimeType: z.string().max(MAX_MIME_TYPE_LENGTH),
+    // Hex SHA-256 of the whole file, checked by the receiver
+    sha256: z.string().regex(/^[0-9a-f]{64}$/),
+  }),
+  z.object({ type: z.literal("file-end"), id: TransferIdSchema }),
+  // Either end gives up on the transfer
+  z.object({
+    type: z.literal("file-cancel"),
+    id: TransferIdSchema,
+    reason: z.string().max(MAX_CANCEL_REASON_LENGTH).optional(),
+  }),
+]);
+
+export type FileControlMessage = z.infer<typeof FileControlMessageSchema>;
+
+export function createFileChannel(pc: RTCPeerConnection): RTCDataChannel {
+  const channel = pc.createDataChannel(FILE_CHANNEL_LABEL, {
+    negotiated: true,
+    id: FILE_CHANNEL_ID,
+    ordered: true,
+  });
+  channel.binaryType = "arraybuffer";
+  channel.bufferedAmountLowThreshold = BUFFERED_AMOUNT_LOW_THRESHOLD;
+  return channel;
+}
+
+export function parseControlMessage(data: string): FileControlMessage | null {
+  let json: unknown;
+  try {
+    json = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  const result = FileControlMessageSchema.safeParse(json);
+  return result.success ? result.data : null;
+}
+
+export function encodeChunk(transferId: string, data: ArrayBuffer) {
+  const chunk = new Uint8Array(TRANSFER_ID_LENGTH + data.byteLength);
+  chunk.set(new TextEncoder().encode(transferId));
+  chunk.set(new Uint8Array(data), TRANSFER_ID_LENGTH);
+  return chunk.buffer;
+}
+
+export function decodeChunk(chunk: ArrayBuffer) {
+  return {
+    transferId: new TextDecoder().decode(
+      new Uint8Array(chunk, 0, TRANSFER_ID_LENGTH)
+    ),
+    data: chunk.slice(TRANSFER_ID_LENGTH),
+  };
+}
+
+export async function sha256Hex(data: Blob | ArrayBuffer): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest("SHA-256", buffer);
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Resolves once the channel can take more data (backpressure). Rejects if
+// the channel closes first.
+export function waitForDrain(channel: RTCDataChannel): Promise<void> {
+  if (channel.bufferedAmount <= MAX_BUFFERED_AMOUNT) {
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const onLow = () => {
+      cleanup();
+      resolve();
+    };
+    const onClose = () => {
+      cleanup();
+      reject(new Error("Connection closed"));
+    };
+    const cleanup = () => {
+      channel.removeEventListener("bufferedamountlow", onLow);
+      channel.removeEventListener("close", onClose);
+    };
+
+    channel.addEventListener("bufferedamountlow", onLow);
+    channel.addEventListener("close", onClose);
+  });
+}
@@ -0,0 +1,64 @@
+// lib/guest.ts
+
+import { createHmac, randomUUID, timingSafeEqual } from "crypto";
+
+// Session cookie holding the signed guest identity. It has no expiry, so the
+// identity lasts until the browser session ends.
+export const GUEST_COOKIE = "meetflow-guest";
+
+export interface GuestIdentity {
+  id: string;
+  name: string;
+}
+
+const MAX_NAME_LENGTH = 40;
+
+// Returns the cleaned-up display name, or null if it is unusable
+export function normalizeGuestName(name: unknown): string | null {
+  if (typeof name !== "string") return null;
+  const trimmed = name.trim().replace(/\s+/g, " ");
+  if (!trimmed || trimmed.length > MAX_NAME_LENGTH) return null;
+  return trimmed;
+}
+
+export function createGuestIdentity(name: string): GuestIdentity {
+  return { id: `guest_${randomUUID()}`, name };
+}
+
+function sign(payload: string): string {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is not configured");
+  }
+  return createHmac("sha256", secret)
+    .update(`guest:${payload}`)
+    .digest("base64url");
+}
+
+// Encode as `<payload>.<signature>` (both base64url encoded)
+export function signGuestIdentity(guest: GuestIdentity): string {
+  const payload = Buffer.from(JSON.stringify(guest)).toString("base64url");
+  return `${payload}.${sign(payload)}`;
+}
+
+export function verifyGuestIdentity(
+  value: string | undefined
+): GuestIdentity | null {
+  const [payload, signature] = value?.split(".") ?? [];
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const guest = JSON.parse(Buffer.from(payload, "base64url").toString());
+    return typeof guest.id === "string" && typeof guest.name === "string"
+      ? { id: guest.id, name: guest.name }
+      : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,77 @@
+// lib/ice-servers.ts
+//
+// STUN/TURN configuration for peer connections, issued by the backend per
+// participant. TURN credentials are time-limited, so the configuration is
+// fetched again before `expiresAt`.
+
+export interface IceConfig {
+  iceServers: RTCIceServer[];
+  // "relay" in rooms that hide participants' addresses from each other
+  iceTransportPolicy: RTCIceTransportPolicy;
+  // ISO 8601; null when there are no TURN credentials to renew
+  expiresAt: string | null;
+}
+
+// `retry` is set when the backend could not be reached at all
+export type IceConfigResult =
+  | { config: IceConfig; error?: undefined }
+  | { config?: undefined; error: string; retry: boolean };
+
+// Credentials are renewed once this share of their lifetime has passed
+const REFRESH_AT_LIFETIME = 0.8;
+const MIN_REFRESH_DELAY_MS = 5000;
+
+export function toRTCConfiguration(config: IceConfig): RTCConfiguration {
+  return {
+    iceServers: config.iceServers,
+    iceTransportPolicy: config.iceTransportPolicy,
+  };
+}
+
+export function refreshDelay(expiresAt: string, now = Date.now()): number {
+  return Math.max(
+    (new Date(expiresAt).getTime() - now) * REFRESH_AT_LIFETIME,
+    MIN_REFRESH_DELAY_MS
+  );
+}
+
+// The backend only hands ICE servers to participants holding a join token
+export async function fetchIceConfig(
+  roomId: string,
+  participantId: string,
+  passcode?: string
+): Promise<IceConfigResult> {
+  try {
+    const tokenResponse = await fetch(`/api/rooms/${roomId}/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ participantId, passcode }),
+    });
+    const tokenData = await tokenResponse.json();
+    if (!tokenResponse.ok) {
+      return {
+        error: tokenData.error || "Failed to get join token",
+        retry: false,
+      };
+    }
+
+    const backendUrl =
+      process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:3001";
+    const response = await fetch(
+      `${backendUrl}/api/rooms/${roomId}/ice-servers`,
+      { headers: { Authorization: `Bearer ${tokenData.token}` } }
+    );
+    const data = await response.json();
+    if (!response.ok) {
+      return {
+        error: data.error || "Failed to load ICE servers",
+        retry: false,
+      };
+    }
+
+    return { config: data };
+  } catch (error) {
+    console.error("[ICE] Failed to load ICE servers:", error);
+    return { error: "Failed to load ICE servers", retry: true };
+  }
+}
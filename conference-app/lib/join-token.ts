@@ -0,0 +1,36 @@
+// lib/join-token.ts
+
+import { createHmac } from "crypto";
+
+// Join tokens only need to survive the WebSocket handshake; clients fetch a
+// fresh one for every (re)connect.
+export const JOIN_TOKEN_TTL_SECONDS = 60;
+
+export interface JoinTokenClaims {
+  roomId: string;
+  participantId: string;
+  userId: string | null; // null for guests
+  guestId: string | null; // set for guests instead of userId
+  name: string;
+  image: string | null;
+  role: "host" | "participant";
+}
+
+// Sign claims as `<payload>.<signature>` (both base64url encoded). The
+// backend verifies the signature with the same JOIN_TOKEN_SECRET.
+export function signJoinToken(claims: JoinTokenClaims): string {
+  const secret = process.env.JOIN_TOKEN_SECRET;
+  if (!secret) {
+    throw new Error("JOIN_TOKEN_SECRET is not configured");
+  }
+
+  const iat = Math.floor(Date.now() / 1000);
+  const payload = Buffer.from(
+    JSON.stringify({ ...claims, iat, exp: iat + JOIN_TOKEN_TTL_SECONDS })
+  ).toString("base64url");
+  const signature = createHmac("sha256", secret)
+    .update(payload)
+    .digest("base64url");
+
+  return `${payload}.${signature}`;
+}
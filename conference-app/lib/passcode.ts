@@ -0,0 +1,213 @@
+// lib/passcode.ts
+
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { cookies } from "next/headers";
+
+const KEY_LENGTH = 64;
+
+// scrypt is slow on purpose; the async version keeps it off the event loop
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: string,
+  keyLength: number
+) => Promise<Buffer>;
+
+// Failed attempts allowed per identity, and per address when it is known,
+// before that client's tries are refused for the rest of the window. An
+// address may be shared by several people, so it gets more room.
+const MAX_FAILED_ATTEMPTS = 5;
+const MAX_FAILED_ATTEMPTS_PER_ADDRESS = 20;
+const ATTEMPT_WINDOW_MS = 15 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Once entered, the passcode is not asked for again in this browser for a
+// while, so reconnects and reloads neither prompt nor count attempts
+const GRANT_LIFETIME_MS = 4 * 60 * 60 * 1000;
+
+// Stored as `<salt>:<hash>`, both hex encoded
+export async function hashPasscode(passcode: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(passcode, salt, KEY_LENGTH);
+  return `${salt}:${hash.toString("hex")}`;
+}
+
+async function passcodeMatches(
+  passcode: string,
+  stored: string
+): Promise<boolean> {
+  const [salt, hash] = stored.split(":");
+  if (!salt || !hash) return false;
+
+  const expected = Buffer.from(hash, "hex");
+  const actual = await scryptAsync(passcode, salt, KEY_LENGTH);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Validates a passcode chosen by a host; returns an error message if unusable
+export function validateNewPasscode(passcode: unknown): string | null {
+  if (typeof passcode !== "string") return "Passcode must be a string";
+  if (passcode.length < 4 || passcode.length > 64) {
+    return "Passcode must be between 4 and 64 characters";
+  }
+  return null;
+}
+
+interface Attempts {
+  count: number;
+  resetAt: number;
+}
+
+const failedAttempts = new Map<string, Attempts>();
+let nextSweepAt = 0;
+
+// Forget windows that are over so the map does not grow without bound
+function sweep(now: number) {
+  if (now < nextSweepAt) return;
+  nextSweepAt = now + SWEEP_INTERVAL_MS;
+  failedAttempts.forEach((attempts, key) => {
+    if (attempts.resetAt <= now) failedAttempts.delete(key);
+  });
+}
+
+function attemptsFor(key: string, now: number) {
+  const attempts = failedAttempts.get(key);
+  if (attempts && attempts.resetAt <= now) {
+    failedAttempts.delete(key);
+    return undefined;
+  }
+  return attempts;
+}
+
+function countFailure(key: string, now: number) {
+  const attempts = attemptsFor(key, now);
+  if (attempts) {
+    attempts.count += 1;
+  } else {
+    failedAttempts.set(key, { count: 1, resetAt: now + ATTEMPT_WINDOW_MS });
+  }
+}
+
+// The caller's address for throttling, or null if it is unknown. Forwarded
+// headers are written by whoever sends the request, so they are only
+// believed behind a proxy (TRUST_PROXY=true). Proxies append the address
+// they saw, which makes the last entry the one they vouch for.
+function clientAddress(request: Request): string | null {
+  if (process.env.TRUST_PROXY !== "true") return null;
+  const forwarded = request.headers.get("x-forwarded-for")?.split(",");
+  return (
+    forwarded?.[forwarded.length - 1].trim() ||
+    request.headers.get("x-real-ip") ||
+    null
+  );
+}
+
+export type PasscodeCheck =
+  | { ok: true }
+  | { ok: false; status: 401 | 429; error: string; retryAfter?: number };
+
+// Check a passcode for a protected room, counting failures per client so
+// the passcode cannot be brute forced. `identity` is the caller's user or
+// guest id; callers without one share a single allowance.
+export async function checkRoomPasscode(
+  passcodeHash: string,
+  passcode: unknown,
+  roomId: string,
+  request: Request,
+  identity: string | null
+): Promise<PasscodeCheck> {
+  const now = Date.now();
+  sweep(now);
+
+  const address = clientAddress(request);
+  const limits = [
+    {
+      key: `identity:${roomId}:${identity ?? "anonymous"}`,
+      max: MAX_FAILED_ATTEMPTS,
+    },
+    ...(address
+      ? [
+          {
+            key: `address:${roomId}:${address}`,
+            max: MAX_FAILED_ATTEMPTS_PER_ADDRESS,
+          },
+        ]
+      : []),
+  ];
+
+  for (const { key, max } of limits) {
+    const attempts = attemptsFor(key, now);
+    if (attempts && attempts.count >= max) {
+      return {
+        ok: false,
+        status: 429,
+        error: "Too many incorrect passcodes, try again later",
+        retryAfter: Math.ceil((attempts.resetAt - now) / 1000),
+      };
+    }
+  }
+
+  if (typeof passcode !== "string" || !passcode) {
+    return { ok: false, status: 401, error: "Passcode required" };
+  }
+
+  // Counted before hashing so concurrent guesses cannot slip past the limit
+  limits.forEach(({ key }) => countFailure(key, now));
+  if (!(await passcodeMatches(passcode, passcodeHash))) {
+    return { ok: false, status: 401, error: "Incorrect passcode" };
+  }
+
+  const [client, shared] = limits;
+  failedAttempts.delete(client.key);
+  // Other people may be guessing from the same address
+  const sharedAttempts = shared && failedAttempts.get(shared.key);
+  if (sharedAttempts) sharedAttempts.count -= 1;
+  return { ok: true };
+}
+
+const grantCookie = (roomId: string) => `meetflow-passcode-${roomId}`;
+
+// Tied to the current passcode, so changing it asks everyone again
+function signGrant(roomId: string, passcodeHash: string, expiresAt: number) {
+  const secret = process.env.AUTH_SECRET;
+  if (!secret) {
+    throw new Error("AUTH_SECRET is not configured");
+  }
+  return createHmac("sha256", secret)
+    .update(`passcode:${roomId}:${passcodeHash}:${expiresAt}`)
+    .digest("base64url");
+}
+
+// Remember in a signed cookie that this browser entered the room's passcode
+export async function rememberPasscode(roomId: string, passcodeHash: string) {
+  const expiresAt = Date.now() + GRANT_LIFETIME_MS;
+  (await cookies()).set(
+    grantCookie(roomId),
+    `${expiresAt}.${signGrant(roomId, passcodeHash, expiresAt)}`,
+    {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      path: `/api/rooms/${roomId}`,
+      maxAge: GRANT_LIFETIME_MS / 1000,
+    }
+  );
+}
+
+// Whether this browser entered the room's current passcode recently
+export async function passcodeRemembered(
+  roomId: string,
+  passcodeHash: string
+): Promise<boolean> {
+  const [expiresAt, signature] =
+    (await cookies()).get(grantCookie(roomId))?.value.split(".") ?? [];
+  if (!expiresAt || !signature || Number(expiresAt) <= Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    signGrant(roomId, passcodeHash, Number(expiresAt))
+  );
+  const actual = Buffer.from(signature);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,18 @@
+// lib/room-limits.ts
+
+// Highest participant limit a host can choose. Rooms that large only work
+// with forwarding, so keep it at or below the backend's SFU_MAX_PARTICIPANTS.
+export const MAX_PARTICIPANTS_LIMIT = Number(
+  process.env.NEXT_PUBLIC_MAX_PARTICIPANTS || 50
+);
+
+// Validates a participant limit chosen by a host; returns an error message if unusable
+export function validateMaxParticipants(value: unknown): string | null {
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    return "Participant limit must be a whole number";
+  }
+  if (value < 2 || value > MAX_PARTICIPANTS_LIMIT) {
+    return `Participant limit must be between 2 and ${MAX_PARTICIPANTS_LIMIT}`;
+  }
+  return null;
+}
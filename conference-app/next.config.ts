@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
+import path from "path";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // Allow importing the signaling protocol from ../shared
+  turbopack: {
+    root: path.join(__dirname, ".."),
+  },
+  outputFileTracingRoot: path.join(__dirname, ".."),
 };
 
 export default nextConfig;
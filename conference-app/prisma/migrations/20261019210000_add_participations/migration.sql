@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "LeaveReason" AS ENUM ('left', 'kicked', 'disconnected');
+
+-- CreateTable
+CREATE TABLE "Participation" (
+    "id" TEXT NOT NULL,
+    "roomId" TEXT NOT NULL,
+    "participantId" TEXT NOT NULL,
+    "userId" TEXT,
+    "guestId" TEXT,
+    "name" TEXT NOT NULL,
+    "joinedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "leftAt" TIMESTAMP(3),
+    "leaveReason" "LeaveReason",
+
+    CONSTRAINT "Participation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Participation_roomId_participantId_idx" ON "Participation"("roomId", "participantId");
+
+-- CreateIndex
+CREATE INDEX "Participation_userId_idx" ON "Participation"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Participation" ADD CONSTRAINT "Participation_roomId_fkey" FOREIGN KEY ("roomId") REFERENCES "Room"("roomId") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Participation" ADD CONSTRAINT "Participation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
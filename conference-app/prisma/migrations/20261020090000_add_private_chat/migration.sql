@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN     "recipientId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "privateChatEnabled" BOOLEAN NOT NULL DEFAULT true;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Room" ADD COLUMN     "sfuEnabled" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ChatMessage" ADD COLUMN     "guestId" TEXT,
+ADD COLUMN     "recipientGuestId" TEXT,
+ADD COLUMN     "recipientUserId" TEXT;
@@ -0,0 +1,458 @@
+// shared/protocol.ts
+//
+// Signaling protocol spoken between the backend (`signalingHandler`) and the
+// conference app (`useWebSocket` / `useWebRTC`). Both sides import this file,
+// so every message shape lives here exactly once.
+
+import { z } from "zod";
+
+// Bump when a change is not backwards compatible. Additive changes should be
+// introduced behind a capability instead.
+export const PROTOCOL_VERSION = 1;
+
+// Optional feature sets a client advertises in its `join` message. The server
+// only sends a capability's message types to clients that advertised it, so
+// older clients keep working when new message types are added.
+export const CAPABILITIES = [
+  "moderation",
+  "audio-state",
+  "heartbeat",
+  "room-capacity",
+  "lobby",
+  "chat",
+  "reactions",
+  "screen-share",
+  "sfu",
+  "spotlight",
+] as const;
+
+export type Capability = (typeof CAPABILITIES)[number];
+
+// Clients that predate protocol versioning send no `version` in `join`;
+// they understood everything that existed in version 1.
+const LEGACY_CAPABILITIES: readonly Capability[] = [
+  "moderation",
+  "audio-state",
+];
+
+// WebSocket close codes sent by the server. Application-defined codes use
+// the 4000-4999 range.
+export const CloseCode = {
+  JOIN_TOKEN_INVALID: 4001,
+  JOIN_TOKEN_EXPIRED: 4002,
+  // Another connection resumed this participant's session
+  REPLACED: 4003,
+  ROOM_FULL: 4004,
+  // The host turned the participant away from the lobby
+  LOBBY_DENIED: 4005,
+  // A host removed the participant from the room
+  KICKED: 4006,
+  // Too many rate-limited or oversized messages
+  POLICY_VIOLATION: 1008,
+  MESSAGE_TOO_BIG: 1009,
+} as const;
+
+export type SignalingErrorCode =
+  | "forbidden"
+  // A non-host tried to share their screen in a room restricted to hosts
+  | "screen-share-forbidden"
+  | "invalid-message"
+  | "conflict"
+  | "rate-limited"
+  | "not-found";
+
+export const ParticipantIdSchema = z.string().min(1).max(64);
+
+const SessionDescriptionSchema = z.object({
+  type: z.enum(["offer", "answer", "pranswer", "rollback"]),
+  sdp: z.string().optional(),
+});
+
+const IceCandidateSchema = z.object({
+  candidate: z.string().optional(),
+  sdpMid: z.string().nullable().optional(),
+  sdpMLineIndex: z.number().nullable().optional(),
+  usernameFragment: z.string().nullable().optional(),
+});
+
+// Who a participant is, taken from its join token rather than from anything
+// the client sends
+export const ParticipantProfileSchema = z.object({
+  id: ParticipantIdSchema,
+  name: z.string(),
+  // Avatar URL from the user's account
+  image: z.string().nullable(),
+  // Joined without signing in
+  isGuest: z.boolean(),
+  role: z.enum(["host", "participant"]),
+});
+
+export type ParticipantProfile = z.infer<typeof ParticipantProfileSchema>;
+
+export const MAX_CHAT_MESSAGE_LENGTH = 2000;
+
+// A chat message as stored by the server. `name` is the sender's name at the
+// time, so history still reads correctly after they leave.
+export const ChatMessageSchema = z.object({
+  id: z.string(),
+  from: ParticipantIdSchema,
+  name: z.string(),
+  text: z.string(),
+  // ISO 8601
+  sentAt: z.string(),
+  // Set on private messages, which only the sender and `to` receive
+  to: ParticipantIdSchema.optional(),
+});
+
+export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+
+// Emoji a participant can react with
+export const REACTIONS = ["👍", "👏", "❤️", "😂", "😮", "🎉"] as const;
+
+export type Reaction = (typeof REACTIONS)[number];
+
+export const RaisedHandSchema = z.object({
+  id: ParticipantIdSchema,
+  // ISO 8601; hands are answered in this order
+  raisedAt: z.string(),
+});
+
+export type RaisedHand = z.infer<typeof RaisedHandSchema>;
+
+// How media travels in a room: peer to peer between every pair of
+// participants, or published once to the server's selective forwarding unit
+// (SFU), which forwards it to everyone else
+export const TopologySchema = z.enum(["mesh", "sfu"]);
+
+export type Topology = z.infer<typeof TopologySchema>;
+
+// A track the SFU forwards on the transceiver with this mid
+export const ForwardedTrackSchema = z.object({
+  mid: z.string(),
+  participantId: ParticipantIdSchema,
+  // Part of the participant's screen share rather than its camera
+  screen: z.boolean().optional(),
+});
+
+export type ForwardedTrack = z.infer<typeof ForwardedTrackSchema>;
+
+// A transceiver the SFU offers to receive one of the client's own tracks on
+export const PublishedTrackSchema = z.object({
+  mid: z.string(),
+  kind: z.enum(["audio", "video"]),
+  screen: z.boolean().optional(),
+});
+
+export type PublishedTrack = z.infer<typeof PublishedTrackSchema>;
+
+// Client -> server. `from` is still accepted from older clients but the
+// server always replaces it with the identity bound to the socket.
+const from = ParticipantIdSchema.optional();
+
+// Offers name the stream carrying the sender's screen share, if any, so the
+// receiver can tell it apart from the camera. Offers without it end a share.
+const screenStreamId = z.string().min(1).max(128).optional();
+
+// Set on an offer from a peer connection that replaced one that failed; the
+// receiver replaces its own connection too before answering
+const reset = z.boolean().optional();
+
+export const ClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("join"),
+    from,
+    roomId: z.string().optional(),
+    version: z.number().int().positive().optional(),
+    capabilities: z.array(z.string()).optional(),
+  }),
+  z.object({
+    type: z.literal("offer"),
+    from,
+    to: ParticipantIdSchema,
+    sdp: SessionDescriptionSchema,
+    screenStreamId,
+    reset,
+  }),
+  z.object({
+    type: z.literal("answer"),
+    from,
+    to: ParticipantIdSchema,
+    sdp: SessionDescriptionSchema,
+  }),
+  z.object({
+    type: z.literal("ice-candidate"),
+    from,
+    to: ParticipantIdSchema,
+    candidate: IceCandidateSchema,
+  }),
+  z.object({ type: z.literal("leave"), from }),
+  z.object({ type: z.literal("kick"), from, to: ParticipantIdSchema }),
+  z.object({
+    type: z.literal("mute"),
+    from,
+    to: ParticipantIdSchema,
+    muted: z.boolean(),
+  }),
+  z.object({
+    type: z.literal("audio-toggle"),
+    from,
+    audioEnabled: z.boolean(),
+  }),
+  // Host decisions on participants waiting in the lobby
+  z.object({ type: z.literal("admit"), from, to: ParticipantIdSchema }),
+  z.object({ type: z.literal("admit-all"), from }),
+  z.object({ type: z.literal("deny"), from, to: ParticipantIdSchema }),
+  z.object({
+    type: z.literal("chat"),
+    from,
+    text: z.string().trim().min(1).max(MAX_CHAT_MESSAGE_LENGTH),
+    // Private message to one participant instead of the whole room
+    to: ParticipantIdSchema.optional(),
+  }),
+  // Host allows or forbids private messages between participants
+  z.object({ type: z.literal("private-chat"), from, enabled: z.boolean() }),
+  // Raise or lower your own hand
+  z.object({ type: z.literal("hand"), from, raised: z.boolean() }),
+  // Host lowers someone else's hand
+  z.object({ type: z.literal("lower-hand"), from, to: ParticipantIdSchema }),
+  z.object({ type: z.literal("reaction"), from, emoji: z.enum(REACTIONS) }),
+  // Host restricts screen sharing to hosts
+  z.object({
+    type: z.literal("screen-share-policy"),
+    from,
+    hostsOnly: z.boolean(),
+  }),
+  // SFU rooms: the server always offers and the client answers
+  z.object({
+    type: z.literal("sfu-answer"),
+    from,
+    sdp: SessionDescriptionSchema,
+  }),
+  z.object({
+    type: z.literal("sfu-ice-candidate"),
+    from,
+    candidate: IceCandidateSchema,
+  }),
+  // Asks for an ICE restart offer after the connection to the SFU dropped
+  z.object({ type: z.literal("sfu-restart"), from }),
+  // Starts or stops forwarding the client's screen share tracks
+  z.object({ type: z.literal("sfu-screen"), from, sharing: z.boolean() }),
+  // Host features a participant in everyone's layout; null clears it
+  z.object({
+    type: z.literal("spotlight"),
+    from,
+    participantId: ParticipantIdSchema.nullable(),
+  }),
+]);
+
+export type ClientMessage = z.infer<typeof ClientMessageSchema>;
+
+// Server -> client
+export const ServerMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("participants"),
+    participants: z.array(ParticipantIdSchema),
+    // Same participants with their profiles; absent from older servers
+    profiles: z.array(ParticipantProfileSchema).optional(),
+    version: z.number().int().positive().optional(),
+    capabilities: z.array(z.string()).optional(),
+    // Set when this join reclaimed a session that dropped moments ago;
+    // existing peer connections stay valid
+    resumed: z.boolean().optional(),
+    // Most recent chat messages, oldest first, for clients with "chat"
+    chatHistory: z.array(ChatMessageSchema).optional(),
+    privateChatEnabled: z.boolean().optional(),
+    // Hands currently raised, in the order they went up
+    raisedHands: z.array(RaisedHandSchema).optional(),
+    screenShareHostsOnly: z.boolean().optional(),
+    // Absent from older servers, which only know the mesh
+    topology: TopologySchema.optional(),
+    // Participant a host put in the spotlight, if any
+    spotlightId: ParticipantIdSchema.nullable().optional(),
+  }),
+  z.object({
+    type: z.literal("participant-joined"),
+    from: ParticipantIdSchema,
+    profile: ParticipantProfileSchema.optional(),
+  }),
+  z.object({ type: z.literal("participant-left"), from: ParticipantIdSchema }),
+  z.object({
+    type: z.literal("offer"),
+    from: ParticipantIdSchema,
+    to: ParticipantIdSchema,
+    sdp: SessionDescriptionSchema,
+    screenStreamId,
+    reset,
+  }),
+  z.object({
+    type: z.literal("answer"),
+    from: ParticipantIdSchema,
+    to: ParticipantIdSchema,
+    sdp: SessionDescriptionSchema,
+  }),
+  z.object({
+    type: z.literal("ice-candidate"),
+    from: ParticipantIdSchema,
+    to: ParticipantIdSchema,
+    candidate: IceCandidateSchema,
+  }),
+  z.object({ type: z.literal("kicked"), from: ParticipantIdSchema }),
+  z.object({
+    type: z.literal("mute"),
+    from: ParticipantIdSchema,
+    muted: z.boolean(),
+  }),
+  z.object({
+    type: z.literal("audio-toggle"),
+    from: ParticipantIdSchema,
+    audioEnabled: z.boolean(),
+  }),
+  // Sent periodically so clients can detect a silent server
+  z.object({
+    type: z.literal("heartbeat"),
+    intervalMs: z.number().int().positive(),
+  }),
+  // Sent before the socket is closed with ROOM_FULL
+  z.object({
+    type: z.literal("room-full"),
+    maxParticipants: z.number().int().positive(),
+  }),
+  // Lobby: the joiner is held until a host admits or denies it. Hosts get
+  // a knock per waiting participant and lobby-left once it is resolved.
+  z.object({ type: z.literal("lobby-waiting") }),
+  z.object({ type: z.literal("lobby-admitted") }),
+  z.object({ type: z.literal("lobby-denied") }),
+  z.object({
+    type: z.literal("knock"),
+    from: ParticipantIdSchema,
+    name: z.string(),
+  }),
+  z.object({ type: z.literal("lobby-left"), from: ParticipantIdSchema }),
+  // Relayed to everyone in the room, including the sender; private
+  // messages only to the sender and recipient
+  ChatMessageSchema.extend({ type: z.literal("chat") }),
+  z.object({ type: z.literal("private-chat"), enabled: z.boolean() }),
+  // Sent to everyone, including the participant whose hand changed
+  z.object({
+    type: z.literal("hand"),
+    from: ParticipantIdSchema,
+    raised: z.boolean(),
+    raisedAt: z.string().optional(),
+    // Set when a host lowered the hand
+    loweredBy: ParticipantIdSchema.optional(),
+  }),
+  // Transient; not part of the state late joiners receive
+  z.object({
+    type: z.literal("reaction"),
+    from: ParticipantIdSchema,
+    emoji: z.enum(REACTIONS),
+  }),
+  z.object({ type: z.literal("screen-share-policy"), hostsOnly: z.boolean() }),
+  // Sent to everyone, including the host who changed it
+  z.object({
+    type: z.literal("spotlight"),
+    participantId: ParticipantIdSchema.nullable(),
+    from: ParticipantIdSchema,
+  }),
+  // The room moved its media to the SFU; an sfu-offer follows
+  z.object({ type: z.literal("topology"), topology: TopologySchema }),
+  // Sent again whenever forwarded tracks come or go. `tracks` lists what
+  // the client receives, `publish` where it sends its own media.
+  z.object({
+    type: z.literal("sfu-offer"),
+    sdp: SessionDescriptionSchema,
+    publish: z.array(PublishedTrackSchema),
+    tracks: z.array(ForwardedTrackSchema),
+  }),
+  z.object({
+    type: z.literal("sfu-ice-candidate"),
+    candidate: IceCandidateSchema,
+  }),
+  z.object({
+    type: z.literal("error"),
+    // Plain string so clients tolerate codes added by newer servers
+    code: z.string().optional(),
+    message: z.string(),
+    // Whom the rejected offer was meant for, so it can be rolled back
+    to: ParticipantIdSchema.optional(),
+  }),
+]);
+
+export type ServerMessage = z.infer<typeof ServerMessageSchema>;
+
+// Server message types gated behind a capability. Types not listed here are
+// part of the base protocol and always delivered.
+const CAPABILITY_MESSAGE_TYPES: Record<
+  Capability,
+  readonly ServerMessage["type"][]
+> = {
+  moderation: ["kicked", "mute"],
+  "audio-state": ["audio-toggle"],
+  heartbeat: ["heartbeat"],
+  "room-capacity": ["room-full"],
+  lobby: [
+    "lobby-waiting",
+    "lobby-admitted",
+    "lobby-denied",
+    "knock",
+    "lobby-left",
+  ],
+  chat: ["chat", "private-chat"],
+  reactions: ["hand", "reaction"],
+  "screen-share": ["screen-share-policy"],
+  sfu: ["topology", "sfu-offer", "sfu-ice-candidate"],
+  spotlight: ["spotlight"],
+};
+
+export function requiredCapability(
+  type: ServerMessage["type"]
+): Capability | undefined {
+  return CAPABILITIES.find((capability) =>
+    CAPABILITY_MESSAGE_TYPES[capability].includes(type)
+  );
+}
+
+// Capabilities both sides support for a client that sent this join message
+export function negotiateCapabilities(
+  join: Extract<ClientMessage, { type: "join" }>
+): Capability[] {
+  if (join.version === undefined) {
+    return [...LEGACY_CAPABILITIES];
+  }
+  return CAPABILITIES.filter((capability) =>
+    join.capabilities?.includes(capability)
+  );
+}
+
+export type ParseResult<T> =
+  | { ok: true; message: T }
+  | { ok: false; error: string };
+
+function parseWith<T>(schema: z.ZodType<T>, raw: string): ParseResult<T> {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: "Message is not valid JSON" };
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return {
+      ok: false,
+      error: `Invalid message${
+        issue ? ` at "${issue.path.join(".")}": ${issue.message}` : ""
+      }`,
+    };
+  }
+  return { ok: true, message: result.data };
+}
+
+export function parseClientMessage(raw: string): ParseResult<ClientMessage> {
+  return parseWith(ClientMessageSchema, raw);
+}
+
+export function parseServerMessage(raw: string): ParseResult<ServerMessage> {
+  return parseWith(ServerMessageSchema, raw);
+}